@@ -3,10 +3,12 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { RoomProvider } from "@/components/RoomProvider";
 import Index from "./pages/Index";
 import Lobby from "./pages/Lobby";
 import Game from "./pages/Game";
 import Results from "./pages/Results";
+import Rooms from "./pages/Rooms";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -16,15 +18,19 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/lobby/:code" element={<Lobby />} />
-          <Route path="/game/:code" element={<Game />} />
-          <Route path="/results/:code" element={<Results />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <RoomProvider>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/join/:code" element={<Index />} />
+            <Route path="/rooms" element={<Rooms />} />
+            <Route path="/lobby/:code" element={<Lobby />} />
+            <Route path="/game/:code" element={<Game />} />
+            <Route path="/results/:code" element={<Results />} />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </RoomProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
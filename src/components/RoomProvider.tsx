@@ -0,0 +1,13 @@
+import type { ReactNode } from "react";
+import { RoomContext } from "@/hooks/useRoom";
+import { useRoomConnection, type RoomConnectionOptions } from "@/hooks/useRoomConnection";
+
+interface RoomProviderProps extends RoomConnectionOptions {
+  children: ReactNode;
+}
+
+// Owns the room connection for the whole session so route changes never drop it
+export const RoomProvider = ({ children, ...options }: RoomProviderProps) => {
+  const room = useRoomConnection(options);
+  return <RoomContext.Provider value={room}>{children}</RoomContext.Provider>;
+};
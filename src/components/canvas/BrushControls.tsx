@@ -0,0 +1,103 @@
+import { Palette } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import type { BrushSettings } from "@/lib/gameStore";
+import { cn } from "@/lib/utils";
+
+const PRESET_COLORS = ["#1a1a2e", "#FF6B6B", "#4ECDC4", "#FFE66D", "#95E1D3", "#F38181", "#AA96DA", "#FF9F43", "#6C5CE7"];
+
+const MIN_WIDTH = 1;
+const MAX_WIDTH = 40;
+
+interface BrushControlsProps {
+  brush: BrushSettings;
+  // Whether the current colour should show as selected (not while erasing, say)
+  showSelection?: boolean;
+  disabled?: boolean;
+  onChange: (changes: Partial<BrushSettings>) => void;
+}
+
+const Swatch = ({ color, selected, disabled, onClick }: { color: string; selected: boolean; disabled?: boolean; onClick: () => void }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={color}
+    className={cn("w-8 h-8 rounded-full border-2 border-white shadow-sm hover:scale-110 transition", selected && "ring-2 ring-primary scale-110")}
+    style={{ backgroundColor: color }}
+  />
+);
+
+export const BrushControls = ({ brush, showSelection = true, disabled, onChange }: BrushControlsProps) => {
+  const isSelected = (color: string) => showSelection && brush.color.toLowerCase() === color.toLowerCase();
+  const recent = brush.recentColors.filter(c => !PRESET_COLORS.some(p => p.toLowerCase() === c.toLowerCase()));
+
+  return (
+    <div className="flex gap-1 flex-wrap items-center">
+      {PRESET_COLORS.map(c => (
+        <Swatch key={c} color={c} selected={isSelected(c)} disabled={disabled} onClick={() => onChange({ color: c })} />
+      ))}
+      {recent.length > 0 && <div className="w-px h-6 bg-border mx-1" />}
+      {recent.map(c => (
+        <Swatch key={c} color={c} selected={isSelected(c)} disabled={disabled} onClick={() => onChange({ color: c })} />
+      ))}
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <button
+            disabled={disabled}
+            title="Brush"
+            className="w-8 h-8 rounded-full bg-white border-2 border-gray-300 flex items-center justify-center hover:scale-110"
+          >
+            <Palette className="w-4 h-4" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-4">
+          <label className="flex items-center justify-between gap-2 text-sm font-bold">
+            Colour
+            <input
+              type="color"
+              value={brush.color}
+              onChange={e => onChange({ color: e.target.value })}
+              className="w-12 h-8 cursor-pointer bg-transparent"
+            />
+          </label>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm font-bold">
+              <span>Size</span>
+              <span className="font-mono">{brush.width}px</span>
+            </div>
+            <Slider
+              min={MIN_WIDTH}
+              max={MAX_WIDTH}
+              step={1}
+              value={[brush.width]}
+              onValueChange={([width]) => onChange({ width })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm font-bold">
+              <span>Opacity</span>
+              <span className="font-mono">{Math.round(brush.opacity * 100)}%</span>
+            </div>
+            <Slider
+              min={10}
+              max={100}
+              step={5}
+              value={[Math.round(brush.opacity * 100)]}
+              onValueChange={([opacity]) => onChange({ opacity: opacity / 100 })}
+            />
+          </div>
+
+          <div className="flex justify-center h-12 items-center rounded-lg bg-white border">
+            <div
+              className="rounded-full"
+              style={{ width: brush.width, height: brush.width, backgroundColor: brush.color, opacity: brush.opacity }}
+            />
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
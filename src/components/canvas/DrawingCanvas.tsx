@@ -0,0 +1,168 @@
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState, type ReactNode } from "react";
+import { Canvas as FabricCanvas, util, type FabricObject } from "fabric";
+import { getTool } from "@/components/canvas/tools";
+import { createEditHistory } from "@/lib/editHistory";
+import { cn } from "@/lib/utils";
+
+// A serialized Fabric object, as getStrokes hands out and loadStrokes takes back
+export type Stroke = Record<string, unknown>;
+
+export interface DrawingCanvasHandle {
+  // PNG data URL at the canvas' own resolution, whatever size it is shown at
+  getImage: () => string | null;
+  getStrokes: () => Stroke[];
+  // Replaces whatever is on the canvas, and starts the undo history afresh
+  loadStrokes: (strokes: Stroke[]) => Promise<void>;
+  clear: () => void;
+  undo: () => void;
+  redo: () => void;
+}
+
+interface DrawingCanvasProps {
+  // Resolution of the drawing; the element scales to fit its container
+  width?: number;
+  height?: number;
+  background?: string;
+  tool?: string;
+  color?: string;
+  brushWidth?: number;
+  opacity?: number;
+  filled?: boolean;
+  disabled?: boolean;
+  // Ctrl+Z / Ctrl+Shift+Z (or Cmd) anywhere on the page, while enabled
+  shortcuts?: boolean;
+  className?: string;
+  onChange?: () => void;
+  // Where the eyedropper reports what it sampled
+  onPickColor?: (color: string) => void;
+  // Overlays, drawn on top of the canvas
+  children?: ReactNode;
+}
+
+export const DrawingCanvas = forwardRef<DrawingCanvasHandle, DrawingCanvasProps>(({
+  width = 640,
+  height = 480,
+  background = "#ffffff",
+  tool = "pen",
+  color = "#1a1a2e",
+  brushWidth = 4,
+  opacity = 1,
+  filled = false,
+  disabled = false,
+  shortcuts = true,
+  className,
+  onChange,
+  onPickColor,
+  children,
+}, ref) => {
+  const elementRef = useRef<HTMLCanvasElement>(null);
+  const [canvas, setCanvas] = useState<FabricCanvas | null>(null);
+  const historyRef = useRef(createEditHistory());
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const onPickColorRef = useRef(onPickColor);
+  onPickColorRef.current = onPickColor;
+
+  useEffect(() => {
+    if (!elementRef.current) return;
+    // Size and background are applied by the effect below; tools that let
+    // you pick objects up turn target finding on
+    const fabricCanvas = new FabricCanvas(elementRef.current, { selection: false, skipTargetFind: true });
+    fabricCanvas.setDimensions({ width: "100%", height: "100%" }, { cssOnly: true });
+
+    setCanvas(fabricCanvas);
+    return () => {
+      setCanvas(null);
+      fabricCanvas.dispose();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!canvas) return;
+    canvas.setDimensions({ width, height }, { backstoreOnly: true });
+    canvas.backgroundColor = background;
+    canvas.requestRenderAll();
+  }, [canvas, width, height, background]);
+
+  useEffect(() => {
+    if (!canvas || disabled) return;
+    return getTool(tool)?.activate(canvas, {
+      color,
+      width: brushWidth,
+      opacity,
+      background,
+      filled,
+      onPickColor: picked => onPickColorRef.current?.(picked),
+      commit: edit => {
+        historyRef.current.push(edit);
+        onChangeRef.current?.();
+      },
+    });
+  }, [canvas, disabled, tool, color, brushWidth, opacity, background, filled]);
+
+  const undo = useCallback(() => {
+    if (historyRef.current.undo()) onChangeRef.current?.();
+  }, []);
+
+  const redo = useCallback(() => {
+    if (historyRef.current.redo()) onChangeRef.current?.();
+  }, []);
+
+  useEffect(() => {
+    if (!shortcuts || disabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (!(e.ctrlKey || e.metaKey) || (key !== "z" && key !== "y")) return;
+      // Text fields keep their own undo
+      if (e.target instanceof HTMLElement && e.target.closest("input, textarea, [contenteditable]")) return;
+      e.preventDefault();
+      if (key === "y" || e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [shortcuts, disabled, undo, redo]);
+
+  useImperativeHandle(ref, () => ({
+    getImage: () => canvas?.toDataURL({ format: "png", multiplier: 1 }) ?? null,
+
+    getStrokes: () => canvas?.getObjects().map(object => object.toObject() as Stroke) ?? [],
+
+    loadStrokes: async (strokes) => {
+      if (!canvas) return;
+      const objects = await util.enlivenObjects<FabricObject>(strokes);
+      canvas.remove(...canvas.getObjects());
+      canvas.add(...objects);
+      historyRef.current.reset();
+      onChangeRef.current?.();
+    },
+
+    // Undoable, so a mis-tap doesn't cost the drawing
+    clear: () => {
+      const objects = canvas?.getObjects() ?? [];
+      if (objects.length === 0) return;
+      canvas.discardActiveObject();
+      canvas.remove(...objects);
+      historyRef.current.push({
+        undo: () => canvas.add(...objects),
+        redo: () => canvas.remove(...objects),
+      });
+      onChangeRef.current?.();
+    },
+
+    undo,
+    redo,
+  }), [canvas, undo, redo]);
+
+  return (
+    <div
+      className={cn("relative mx-auto bg-white border-4 border-foreground rounded-xl shadow-inner overflow-hidden", className)}
+      style={{ aspectRatio: `${width} / ${height}` }}
+    >
+      <canvas ref={elementRef} className="block cursor-crosshair touch-none" />
+      {children}
+    </div>
+  );
+});
+
+DrawingCanvas.displayName = "DrawingCanvas";
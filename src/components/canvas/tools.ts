@@ -0,0 +1,422 @@
+import {
+  Color,
+  Ellipse,
+  Group,
+  IText,
+  Line,
+  Path,
+  PencilBrush,
+  Rect,
+  util,
+  type Canvas as FabricCanvas,
+  type FabricObject,
+  type Point,
+  type TMat2D,
+  type TPointerEventInfo,
+} from "fabric";
+import {
+  ArrowUpRight,
+  Circle,
+  Delete,
+  Eraser,
+  Minus,
+  Move,
+  PaintBucket,
+  Pencil,
+  Pipette,
+  Square,
+  Type,
+  type LucideIcon,
+} from "lucide-react";
+import type { Edit } from "@/lib/editHistory";
+
+export interface ToolOptions {
+  color: string;
+  width: number;
+  opacity: number;
+  background: string;
+  filled: boolean; // whether shapes are filled as well as outlined
+  onPickColor: (color: string) => void;
+  // Adds an edit the tool has just made to the undo history
+  commit: (edit: Edit) => void;
+}
+
+export interface CanvasTool {
+  id: string;
+  label: string;
+  icon: LucideIcon;
+  // Draws ready-made shapes or text, which "freehand only" rounds leave out
+  shape?: boolean;
+  // Sets the canvas up for this tool; the returned function undoes that
+  // when another tool is picked or the canvas goes away
+  activate: (canvas: FabricCanvas, options: ToolOptions) => () => void;
+}
+
+type PointerEventName = "mouse:down:before" | "mouse:down" | "mouse:move" | "mouse:up";
+
+// Same family as the `font-handwritten` class
+const HANDWRITTEN_FONT = '"Patrick Hand", cursive';
+
+const registry = new Map<string, CanvasTool>();
+
+// Tools show up in toolbars in the order they were registered
+export const registerTool = (tool: CanvasTool) => {
+  registry.set(tool.id, tool);
+};
+
+export const getTool = (id: string): CanvasTool | undefined => registry.get(id);
+
+export const getTools = (): CanvasTool[] => [...registry.values()];
+
+// What a round allows: "freehand only" rounds leave out shapes and text
+export const availableTools = (freehandOnly: boolean): CanvasTool[] =>
+  getTools().filter(tool => !(freehandOnly && tool.shape));
+
+const freehand = (canvas: FabricCanvas, color: string, width: number, onPath: (path: Path) => void) => {
+  const brush = new PencilBrush(canvas);
+  brush.color = color;
+  brush.width = width;
+  canvas.freeDrawingBrush = brush;
+  canvas.isDrawingMode = true;
+  const created = ({ path }: { path: Path }) => onPath(path);
+  canvas.on("path:created", created);
+  return () => {
+    canvas.off("path:created", created);
+    canvas.isDrawingMode = false;
+  };
+};
+
+// For tools that click on the canvas rather than draw on it. Objects can't be
+// grabbed unless a tool turns target finding back on, as "move" does.
+const pointerTool = (canvas: FabricCanvas, handlers: Partial<Record<PointerEventName, (e: TPointerEventInfo) => void>>) => {
+  const entries = Object.entries(handlers) as [PointerEventName, (e: TPointerEventInfo) => void][];
+  canvas.defaultCursor = "crosshair";
+  entries.forEach(([event, handler]) => canvas.on(event, handler));
+  return () => {
+    entries.forEach(([event, handler]) => canvas.off(event, handler));
+    canvas.defaultCursor = "default";
+  };
+};
+
+const added = (canvas: FabricCanvas, object: FabricObject): Edit => ({
+  undo: () => canvas.remove(object),
+  redo: () => canvas.add(object),
+});
+
+const paint = ({ color, opacity }: ToolOptions) => new Color(color).setAlpha(opacity).toRgba();
+
+// Shapes are dragged out from where the press started, rebuilt on every move
+const dragShape = (canvas: FabricCanvas, { commit }: ToolOptions, build: (from: Point, to: Point) => FabricObject) => {
+  let from: Point | null = null;
+  let shape: FabricObject | null = null;
+  return pointerTool(canvas, {
+    "mouse:down": ({ scenePoint }) => {
+      from = scenePoint;
+    },
+    "mouse:move": ({ scenePoint }) => {
+      if (!from) return;
+      if (shape) canvas.remove(shape);
+      shape = build(from, scenePoint);
+      canvas.add(shape);
+    },
+    "mouse:up": () => {
+      const drawn = shape;
+      from = null;
+      shape = null;
+      if (drawn) commit(added(canvas, drawn));
+    },
+  });
+};
+
+const outlined = (options: ToolOptions, filled = options.filled) => ({
+  stroke: paint(options),
+  strokeWidth: options.width,
+  strokeLineCap: "round" as const,
+  strokeLineJoin: "round" as const,
+  fill: filled ? paint(options) : "",
+  originX: "left" as const,
+  originY: "top" as const,
+});
+
+const box = (from: Point, to: Point) => ({
+  left: Math.min(from.x, to.x),
+  top: Math.min(from.y, to.y),
+  width: Math.abs(to.x - from.x),
+  height: Math.abs(to.y - from.y),
+});
+
+// The topmost object actually painted under the pointer, not just boxed in
+const objectAt = (canvas: FabricCanvas, { scenePoint, viewportPoint }: TPointerEventInfo) => {
+  const objects = canvas.getObjects();
+  for (let index = objects.length - 1; index >= 0; index--) {
+    const object = objects[index];
+    if (object.containsPoint(scenePoint) && !canvas.isTargetTransparent(object, viewportPoint.x, viewportPoint.y)) {
+      return { object, index };
+    }
+  }
+  return null;
+};
+
+// What a move/resize/rotate changes, to put back on undo
+const TRANSFORM_PROPS = ["left", "top", "scaleX", "scaleY", "angle", "skewX", "skewY", "flipX", "flipY"] as const;
+const transformOf = (object: FabricObject) =>
+  Object.fromEntries(TRANSFORM_PROPS.map(prop => [prop, object[prop]])) as Partial<FabricObject>;
+
+const overlaps = (a: FabricObject, b: FabricObject) => {
+  const r1 = a.getBoundingRect();
+  const r2 = b.getBoundingRect();
+  return r1.left < r2.left + r2.width && r2.left < r1.left + r1.width &&
+    r1.top < r2.top + r2.height && r2.top < r1.top + r1.height;
+};
+
+// Everything ever rubbed out of an object lives in one inverted clip group, in
+// the object's own plane, so the holes go wherever the object is moved. The
+// previous mask is kept as it was for undo, so its erasures are copied over.
+const eraseMask = (object: FabricObject, eraser: Path): Group => {
+  const previous = object.clipPath instanceof Group ? object.clipPath.getObjects() as Path[] : [];
+  const toObjectPlane = util.invertTransform(object.calcTransformMatrix());
+  const erasures: [Path, TMat2D][] = [
+    ...previous.map(p => [p, p.calcTransformMatrix()] as [Path, TMat2D]),
+    [eraser, util.multiplyTransformMatrices(toObjectPlane, eraser.calcTransformMatrix())],
+  ];
+  const paths = erasures.map(([p, transform]) => {
+    const copy = new Path(p.path, {
+      fill: null,
+      stroke: "#000000",
+      strokeWidth: p.strokeWidth,
+      strokeLineCap: "round",
+      strokeLineJoin: "round",
+    });
+    util.applyTransformToObject(copy, transform);
+    return copy;
+  });
+  return new Group(paths, { inverted: true });
+};
+
+registerTool({
+  id: "pen",
+  label: "Pen",
+  icon: Pencil,
+  activate: (canvas, options) =>
+    freehand(canvas, paint(options), options.width, path => options.commit(added(canvas, path))),
+});
+
+registerTool({
+  id: "rectangle",
+  label: "Rectangle",
+  icon: Square,
+  shape: true,
+  activate: (canvas, options) => dragShape(canvas, options, (from, to) =>
+    new Rect({ ...box(from, to), ...outlined(options) })),
+});
+
+registerTool({
+  id: "ellipse",
+  label: "Ellipse",
+  icon: Circle,
+  shape: true,
+  activate: (canvas, options) => dragShape(canvas, options, (from, to) => {
+    const { left, top, width, height } = box(from, to);
+    return new Ellipse({ left, top, rx: width / 2, ry: height / 2, ...outlined(options) });
+  }),
+});
+
+registerTool({
+  id: "line",
+  label: "Line",
+  icon: Minus,
+  shape: true,
+  activate: (canvas, options) => dragShape(canvas, options, (from, to) =>
+    new Line([from.x, from.y, to.x, to.y], { ...outlined(options, false), originX: "center", originY: "center" })),
+});
+
+registerTool({
+  id: "arrow",
+  label: "Arrow",
+  icon: ArrowUpRight,
+  shape: true,
+  activate: (canvas, options) => dragShape(canvas, options, (from, to) => {
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    const head = Math.max(12, options.width * 3);
+    const barb = (side: number) =>
+      `${to.x - head * Math.cos(angle + side * Math.PI / 7)} ${to.y - head * Math.sin(angle + side * Math.PI / 7)}`;
+    return new Path(
+      `M ${from.x} ${from.y} L ${to.x} ${to.y} M ${barb(1)} L ${to.x} ${to.y} L ${barb(-1)}`,
+      { ...outlined(options, false), originX: "center", originY: "center" }
+    );
+  }),
+});
+
+registerTool({
+  id: "text",
+  label: "Text",
+  icon: Type,
+  shape: true,
+  activate: (canvas, options) => {
+    let editing: IText | null = null;
+    // A click while typing only finishes the text, it doesn't start another
+    let finishing = false;
+
+    const stop = pointerTool(canvas, {
+      "mouse:down:before": () => {
+        finishing = !!editing;
+      },
+      "mouse:down": ({ scenePoint }) => {
+        if (finishing) return;
+        const text = new IText("", {
+          left: scenePoint.x,
+          top: scenePoint.y,
+          originX: "left",
+          originY: "top",
+          fontFamily: HANDWRITTEN_FONT,
+          fontSize: 20 + options.width * 2,
+          fill: paint(options),
+        });
+        text.once("editing:exited", () => {
+          editing = null;
+          if (text.text.trim()) options.commit(added(canvas, text));
+          else canvas.remove(text);
+        });
+        canvas.add(text);
+        canvas.setActiveObject(text);
+        text.enterEditing();
+        editing = text;
+      },
+    });
+
+    return () => {
+      editing?.exitEditing();
+      canvas.discardActiveObject();
+      canvas.requestRenderAll();
+      stop();
+    };
+  },
+});
+
+registerTool({
+  id: "move",
+  label: "Move and resize",
+  icon: Move,
+  activate: (canvas, { commit }) => {
+    let before: Partial<FabricObject> | null = null;
+    const started = ({ transform }: { transform: { target: FabricObject } }) => {
+      before = transformOf(transform.target);
+    };
+    const modified = ({ target }: { target: FabricObject }) => {
+      if (!before) return;
+      const after = transformOf(target);
+      const from = before;
+      before = null;
+      const apply = (props: Partial<FabricObject>) => {
+        target.set(props);
+        target.setCoords();
+        canvas.requestRenderAll();
+      };
+      commit({ undo: () => apply(from), redo: () => apply(after) });
+    };
+
+    canvas.skipTargetFind = false;
+    canvas.on("before:transform", started);
+    canvas.on("object:modified", modified);
+    return () => {
+      canvas.off("before:transform", started);
+      canvas.off("object:modified", modified);
+      canvas.discardActiveObject();
+      canvas.skipTargetFind = true;
+      canvas.requestRenderAll();
+    };
+  },
+});
+
+registerTool({
+  id: "fill",
+  label: "Fill",
+  icon: PaintBucket,
+  // Fills the shape under the pointer; a freehand stroke fills the outline it traces
+  activate: (canvas, options) => pointerTool(canvas, {
+    "mouse:down": e => {
+      const { object } = objectAt(canvas, e) ?? {};
+      if (!object) return;
+      const before = object.fill;
+      const after = paint(options);
+      const apply = (fill: typeof before) => {
+        object.set({ fill });
+        canvas.requestRenderAll();
+      };
+      apply(after);
+      options.commit({ undo: () => apply(before), redo: () => apply(after) });
+    },
+  }),
+});
+
+registerTool({
+  id: "eraser",
+  label: "Eraser",
+  icon: Eraser,
+  // The stroke shows in the background colour while drawing, then becomes a
+  // clip on whatever it crossed
+  activate: (canvas, { width, background, commit }) =>
+    freehand(canvas, background, width * 5, eraser => {
+      canvas.remove(eraser);
+      const changes = canvas.getObjects()
+        .filter(object => overlaps(object, eraser))
+        .map(object => ({ object, before: object.clipPath, after: eraseMask(object, eraser) }));
+      if (changes.length === 0) return;
+
+      const apply = (side: "before" | "after") => {
+        changes.forEach(change => change.object.set({ clipPath: change[side] }));
+        canvas.requestRenderAll();
+      };
+      apply("after");
+      commit({ undo: () => apply("before"), redo: () => apply("after") });
+    }),
+});
+
+registerTool({
+  id: "stroke-eraser",
+  label: "Erase whole strokes",
+  icon: Delete,
+  activate: (canvas, { commit }) => {
+    let removed: { object: FabricObject; index: number }[] | null = null;
+
+    const eraseAt = (e: TPointerEventInfo) => {
+      const hit = removed && objectAt(canvas, e);
+      if (!hit) return;
+      removed.push(hit);
+      canvas.remove(hit.object);
+    };
+
+    return pointerTool(canvas, {
+      "mouse:down": e => {
+        removed = [];
+        eraseAt(e);
+      },
+      "mouse:move": eraseAt,
+      "mouse:up": () => {
+        const gone = removed ?? [];
+        removed = null;
+        if (gone.length === 0) return;
+        commit({
+          // Put back in reverse, so every index is the one it was removed from
+          undo: () => [...gone].reverse().forEach(({ object, index }) => canvas.insertAt(index, object)),
+          redo: () => canvas.remove(...gone.map(({ object }) => object)),
+        });
+      },
+    });
+  },
+});
+
+registerTool({
+  id: "eyedropper",
+  label: "Pick a colour",
+  icon: Pipette,
+  // Reads the rendered pixel, so it sees through opacity like the eye does
+  activate: (canvas, { onPickColor }) => pointerTool(canvas, {
+    "mouse:down": ({ viewportPoint }) => {
+      const scale = canvas.getRetinaScaling();
+      const [r, g, b] = canvas.getContext()
+        .getImageData(Math.round(viewportPoint.x * scale), Math.round(viewportPoint.y * scale), 1, 1).data;
+      onPickColor(`#${new Color([r, g, b]).toHex().toLowerCase()}`);
+    },
+  }),
+});
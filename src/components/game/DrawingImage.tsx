@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { ImageOff, Loader2 } from "lucide-react";
+import { useRoom } from "@/hooks/useRoom";
+import { cn } from "@/lib/utils";
+
+interface DrawingImageProps {
+  imageRef: string;
+  alt?: string;
+  className?: string;
+}
+
+// Fetches a submitted drawing from the drawing store on first render (cached after that)
+export const DrawingImage = ({ imageRef, alt = "Drawing", className }: DrawingImageProps) => {
+  const { resolveDrawing } = useRoom();
+  const [src, setSrc] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSrc(null);
+    setFailed(false);
+
+    resolveDrawing(imageRef)
+      .then(image => !cancelled && setSrc(image))
+      .catch(err => {
+        console.error("Failed to load drawing:", err);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageRef, resolveDrawing]);
+
+  if (!src) {
+    return (
+      <div className={cn("flex items-center justify-center text-muted-foreground", className)}>
+        {failed ? <ImageOff className="w-8 h-8" /> : <Loader2 className="w-8 h-8 animate-spin" />}
+      </div>
+    );
+  }
+
+  return <img src={src} alt={alt} className={className} />;
+};
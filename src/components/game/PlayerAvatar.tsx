@@ -1,11 +1,11 @@
 import { cn } from "@/lib/utils";
-import { Crown, Check, Wifi, WifiOff } from "lucide-react";
+import { Crown, Check, Hourglass, Wifi, WifiOff } from "lucide-react";
 
 interface PlayerAvatarProps {
   username: string;
   color: string;
   isHost?: boolean;
-  isReady?: boolean;
+  isReady?: boolean; // leave undefined where readiness doesn't matter
   isConnected?: boolean;
   score?: number;
   size?: "sm" | "md" | "lg";
@@ -16,7 +16,7 @@ export const PlayerAvatar = ({
   username,
   color,
   isHost = false,
-  isReady = false,
+  isReady,
   isConnected = true,
   score,
   size = "md",
@@ -64,6 +64,10 @@ export const PlayerAvatar = ({
               <div className="w-6 h-6 bg-muted rounded-full border-2 border-foreground flex items-center justify-center">
                 <WifiOff size={12} className="text-muted-foreground" />
               </div>
+            ) : isReady === false ? (
+              <div className="w-6 h-6 bg-card rounded-full border-2 border-dashed border-foreground flex items-center justify-center">
+                <Hourglass size={12} className="text-muted-foreground" />
+              </div>
             ) : null}
           </div>
         )}
@@ -0,0 +1,48 @@
+import { Crown, MoreVertical, Ban, UserX } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useRoom } from "@/hooks/useRoom";
+import type { Player } from "@/lib/gameEngine";
+import { cn } from "@/lib/utils";
+
+interface PlayerMenuProps {
+  player: Player;
+  className?: string;
+}
+
+// Host-only moderation for one player: hand over host, kick, or ban
+export const PlayerMenu = ({ player, className }: PlayerMenuProps) => {
+  const { isHost, playerId, kickPlayer, transferHost } = useRoom();
+  if (!isHost || player.id === playerId) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        className={cn("rounded-md p-1 text-muted-foreground hover:bg-muted hover:text-foreground", className)}
+        aria-label={`Manage ${player.username}`}
+      >
+        <MoreVertical className="w-4 h-4" />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem disabled={!player.is_connected} onSelect={() => transferHost(player.id)}>
+          <Crown className="w-4 h-4 mr-2" />
+          Make host
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => kickPlayer(player.id)}>
+          <UserX className="w-4 h-4 mr-2" />
+          Kick
+        </DropdownMenuItem>
+        <DropdownMenuItem className="text-destructive" onSelect={() => kickPlayer(player.id, true)}>
+          <Ban className="w-4 h-4 mr-2" />
+          Ban
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
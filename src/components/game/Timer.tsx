@@ -7,9 +7,11 @@ interface TimerProps {
   endTime: string | null;
   onComplete?: () => void;
   size?: "sm" | "md" | "lg";
+  // Current time on the room clock; defaults to this device's clock
+  now?: () => number;
 }
 
-export const Timer = ({ endTime, onComplete, size = "md" }: TimerProps) => {
+export const Timer = ({ endTime, onComplete, size = "md", now = Date.now }: TimerProps) => {
   const [timeLeft, setTimeLeft] = useState<number>(0);
 
   useEffect(() => {
@@ -17,8 +19,7 @@ export const Timer = ({ endTime, onComplete, size = "md" }: TimerProps) => {
 
     const calculateTimeLeft = () => {
       const end = new Date(endTime).getTime();
-      const now = Date.now();
-      const diff = Math.max(0, Math.floor((end - now) / 1000));
+      const diff = Math.max(0, Math.floor((end - now()) / 1000));
       return diff;
     };
 
@@ -35,7 +36,7 @@ export const Timer = ({ endTime, onComplete, size = "md" }: TimerProps) => {
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [endTime, onComplete]);
+  }, [endTime, onComplete, now]);
 
   const minutes = Math.floor(timeLeft / 60);
   const seconds = timeLeft % 60;
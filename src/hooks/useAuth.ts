@@ -1,18 +1,21 @@
 import { useState, useEffect } from "react";
 
+// Mock a persistent session: one id per browser, kept across reloads and tabs
+export const getOrCreateUserId = () => {
+  let mockId = localStorage.getItem("mock_user_id");
+  if (!mockId) {
+    mockId = "user-" + Math.random().toString(36).substr(2, 9);
+    localStorage.setItem("mock_user_id", mockId);
+  }
+  return mockId;
+};
+
 export const useAuth = () => {
   const [session, setSession] = useState<{ user: { id: string } } | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    // Mock a persistent session
-    let mockId = localStorage.getItem("mock_user_id");
-    if (!mockId) {
-      mockId = "user-" + Math.random().toString(36).substr(2, 9);
-      localStorage.setItem("mock_user_id", mockId);
-    }
-
-    setSession({ user: { id: mockId } });
+    setSession({ user: { id: getOrCreateUserId() } });
     setLoading(false);
   }, []);
 
@@ -0,0 +1,704 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { getOrCreatePlayerId, getRandomAvatarColor, useGameStore } from "@/lib/gameStore";
+import { getOrCreateUserId } from "@/hooks/useAuth";
+import {
+  createGameState,
+  defaultEnv,
+  electHost,
+  gameReducer,
+  LATE_SUBMISSION_GRACE_MS,
+  rejectAction,
+  rejectJoin,
+  type Drawing,
+  type GameAction,
+  type GameState,
+  type JoinRejectReason,
+  type Player,
+  type Room,
+  type Vote,
+} from "@/lib/gameEngine";
+import { applyPatches, diffState, type PatchMessage, type SnapshotMessage } from "@/lib/stateSync";
+import { parseEvent, type EventPayload, type RoomEvent } from "@/lib/events";
+import { createDefaultDrawingStore, type DrawingStore } from "@/lib/drawingStore";
+import { createJoinNonce, hashRoomPassword, proveRoomPassword } from "@/lib/roomAuth";
+import { allocateRoomCode, CODE_CHECK_MS } from "@/lib/roomCodes";
+import { DIRECTORY_CHANNEL, listingsFrom, toListing, type RoomListing } from "@/lib/roomDirectory";
+import { bestOffset, measureSample, TIME_SYNC_SAMPLES, type TimeSample } from "@/lib/timeSync";
+import { createRoomTransport, sortMembers, type PresenceMember, type RoomTransport, type TransportFactory } from "@/lib/transport";
+
+export interface RoomConnectionOptions {
+  createTransport?: TransportFactory;
+  drawingStore?: DrawingStore;
+  joinTimeoutMs?: number;
+  snapshotRetryMs?: number;
+  codeCheckMs?: number;
+}
+
+// Everything that can keep a join from going through: the host's reasons, no
+// host answering at all, or no way to reach the room in the first place
+export type JoinFailure = JoinRejectReason | 'not_found' | 'connection_failed';
+
+export const JOIN_FAILURE_MESSAGES: Record<JoinFailure, string> = {
+  not_found: "No room with that code is open right now.",
+  connection_failed: "Could not connect to the room. Check your connection and try again.",
+  wrong_password: "That room password isn't right.",
+  room_full: "This room is full.",
+  in_progress: "This game has already started.",
+  banned: "You have been banned from this room.",
+  name_taken: "Someone in this room already has that name.",
+};
+
+// How long a join waits for the host before giving up on the room
+const JOIN_TIMEOUT_MS = 8000;
+// How long to wait for a requested snapshot before asking again
+const SNAPSHOT_RETRY_MS = 3000;
+
+// The one room connection of the app. Mounted once by RoomProvider; pages read
+// it through useRoom(). Tests pass in-memory transport and drawing store.
+export const useRoomConnection = ({
+  createTransport = createRoomTransport,
+  drawingStore,
+  joinTimeoutMs = JOIN_TIMEOUT_MS,
+  snapshotRetryMs = SNAPSHOT_RETRY_MS,
+  codeCheckMs = CODE_CHECK_MS,
+}: RoomConnectionOptions = {}) => {
+  // Stable across reloads, so the host can give us our seat back
+  const [myId] = useState(getOrCreatePlayerId);
+  const [myUserId] = useState(getOrCreateUserId);
+
+  // Authoritative on the host, a mirror rebuilt from patches everywhere else.
+  // The ref lets channel handlers and the host loop read fresh state without re-binding.
+  const [game, setGame] = useState<GameState | null>(null);
+  const gameRef = useRef<GameState | null>(null);
+
+  // Sequence number of the last patch sent (host) or applied (guest), and on
+  // guests whose numbering it is: a new host counts on from its own copy
+  const seqRef = useRef(0);
+  const seqSourceRef = useRef<string | null>(null);
+  // Pending while a snapshot request is out; it is repeated until one arrives
+  const snapshotRetryRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Who presence says is here, oldest connection first
+  const connectedIdsRef = useRef<string[]>([]);
+
+  // Connection State
+  const [status, setStatus] = useState<"idle" | "loading" | "connected" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+  // Hash of the room password, if the room has one. Never part of the shared
+  // state: each player keeps what they typed, so whoever becomes host can check joins.
+  const passwordHashRef = useRef<string | null>(null);
+  // Settles a pending joinRoom() once the host lets us in or turns us away
+  const joinWaiterRef = useRef<((failure: JoinFailure | null) => void) | null>(null);
+  // Set when the host removed us, until the UI has told the player
+  const [removal, setRemoval] = useState<{ code: string; banned: boolean } | null>(null);
+
+  const transportRef = useRef<RoomTransport | null>(null);
+  const [store] = useState(() => drawingStore ?? createDefaultDrawingStore());
+
+  // What we last sent to the host this round, re-sent if the host changes
+  // before it made it into the shared state
+  const mySubmissionsRef = useRef<{ drawing?: Drawing; vote?: Vote }>({});
+
+  // Room clock: the host's clock, estimated from round trips on guests. A
+  // promoted host keeps its offset, so deadlines set by the old host still hold.
+  const clockOffsetRef = useRef(0);
+  const timeSamplesRef = useRef<TimeSample[]>([]);
+  const now = useCallback(() => Date.now() + clockOffsetRef.current, []);
+  const engineEnv = useCallback(() => ({ ...defaultEnv(), now: now() }), [now]);
+
+  const applyState = useCallback((next: GameState | null) => {
+    gameRef.current = next;
+    setGame(next);
+  }, []);
+
+  // Host: adopt a new state and send everyone only what changed
+  const commit = useCallback((next: GameState) => {
+    const patches = gameRef.current ? diffState(gameRef.current, next) : [];
+    applyState(next);
+    if (!patches.length) return;
+
+    seqRef.current += 1;
+    transportRef.current?.send('statePatch', { seq: seqRef.current, patches } satisfies PatchMessage);
+  }, [applyState]);
+
+  const sendSnapshot = useCallback(() => {
+    const current = gameRef.current;
+    if (!current) return;
+    transportRef.current?.send('gameState', { seq: seqRef.current, state: current } satisfies SnapshotMessage);
+  }, []);
+
+  const cancelSnapshotRequest = useCallback(() => {
+    if (snapshotRetryRef.current) clearTimeout(snapshotRetryRef.current);
+    snapshotRetryRef.current = null;
+  }, []);
+
+  // Guest: ask the host for everything, and keep asking while nobody answers
+  // (the request may have gone to a host that was just leaving)
+  const requestSnapshot = useCallback(() => {
+    const transport = transportRef.current;
+    if (!transport || snapshotRetryRef.current) return;
+    transport.send('requestState', { requesterId: myId });
+    snapshotRetryRef.current = setTimeout(() => {
+      snapshotRetryRef.current = null;
+      if (transportRef.current === transport && gameRef.current?.room.host_id !== myId) requestSnapshot();
+    }, snapshotRetryMs);
+  }, [myId, snapshotRetryMs]);
+
+  // Host only: run an action through the engine and share the result
+  const dispatch = useCallback((action: GameAction) => {
+    const current = gameRef.current;
+    if (!current || current.room.host_id !== myId) return;
+
+    const env = engineEnv();
+    const rejection = rejectAction(current, action, env);
+    if (rejection) {
+      console.warn(`Rejected '${action.type}':`, rejection);
+      return;
+    }
+
+    const next = gameReducer(current, action, env);
+    if (next !== current) commit(next);
+  }, [myId, commit, engineEnv]);
+
+  // Host: hand the room to another host that has taken over meanwhile (say we
+  // dropped out for a moment and they were elected), and follow it as a guest.
+  // Whoever followed us is told where the room went.
+  const stepDown = useCallback((hostId: string) => {
+    dispatch({ type: 'migrateHost', hostId });
+    if (gameRef.current?.room.host_id !== hostId) return;
+    seqSourceRef.current = null;
+    requestSnapshot();
+  }, [dispatch, requestSnapshot]);
+
+  // Presence is the source of truth for who is still here. The host records it;
+  // if the host itself is gone, whoever the election picks promotes itself and
+  // carries on from its copy of the state, phase timer included. A host that
+  // presence no longer elects steps down.
+  const handlePresence = useCallback((members: PresenceMember[]) => {
+    const connectedIds = sortMembers(members).map(m => m.key);
+    connectedIdsRef.current = connectedIds;
+    const current = gameRef.current;
+    if (!current) return;
+
+    let next = current;
+    if (current.room.host_id !== myId) {
+      if (electHost(current, connectedIds) !== myId) {
+        // The new host may have spoken before we knew it was the host: ask
+        // it for everything, instead of the old host we may be waiting on
+        if (!connectedIds.includes(current.room.host_id)) {
+          cancelSnapshotRequest();
+          requestSnapshot();
+        }
+        return;
+      }
+      next = gameReducer(current, { type: 'migrateHost', hostId: myId }, engineEnv());
+    } else {
+      const elected = electHost(current, connectedIds);
+      if (elected && elected !== myId) {
+        stepDown(elected);
+        return;
+      }
+    }
+
+    next = gameReducer(next, { type: 'presenceChanged', connectedIds }, engineEnv());
+    if (next !== current) commit(next);
+  }, [myId, commit, engineEnv, cancelSnapshotRequest, requestSnapshot, stepDown]);
+
+  const sendTimePing = useCallback(() => {
+    transportRef.current?.send('timePing', { clientTime: Date.now() });
+  }, []);
+
+  // After a host change, make sure the new host has what we sent the old one
+  const resendLostSubmissions = (state: GameState) => {
+    const { drawing, vote } = mySubmissionsRef.current;
+    const { room } = state;
+
+    if (drawing && drawing.round === room.current_round && room.status === 'drawing'
+      && !state.drawings.some(d => d.id === drawing.id)) {
+      transportRef.current?.send('submitDrawing', { drawing });
+    }
+    if (vote && room.status === 'voting' && state.drawings.some(d => d.id === vote.drawing_id)
+      && !state.votes.some(v => v.voter_id === vote.voter_id && v.drawing_id === vote.drawing_id)) {
+      transportRef.current?.send('submitVote', { vote });
+    }
+  };
+
+  // Guest: take state from the host, noticing when the host has changed
+  const receiveState = (next: GameState, seq: number) => {
+    const previousHost = gameRef.current?.room.host_id;
+    seqRef.current = seq;
+    applyState(next);
+    setStatus("connected");
+    joinWaiterRef.current?.(null);
+    joinWaiterRef.current = null;
+    if (previousHost && previousHost !== next.room.host_id) resendLostSubmissions(next);
+    // Only now do we know whose clock to set ours by
+    if (!previousHost) {
+      timeSamplesRef.current = [];
+      sendTimePing();
+    }
+  };
+
+  // cleanup on unmount
+  useEffect(() => {
+    return () => {
+      cancelSnapshotRequest();
+      transportRef.current?.close();
+    };
+  }, [cancelSnapshotRequest]);
+
+  // --- Actions ---
+
+  // Resets only once the channel is closed: pages reconnect whenever they see
+  // no room and an idle status, so resetting first would walk straight back in
+  const leaveRoom = async () => {
+    const transport = transportRef.current;
+    transportRef.current = null;
+    joinWaiterRef.current = null;
+    mySubmissionsRef.current = {};
+    seqRef.current = 0;
+    seqSourceRef.current = null;
+    cancelSnapshotRequest();
+    connectedIdsRef.current = [];
+    clockOffsetRef.current = 0;
+    passwordHashRef.current = null;
+    useGameStore.getState().setRoom(null);
+    await transport?.close();
+    // Unless we've gone on to another room meanwhile
+    if (transportRef.current) return;
+    applyState(null);
+    setStatus("idle");
+  };
+
+  const createRoom = async (
+    username: string,
+    { rounds = 3, drawTime = 60, password = "" }: { rounds?: number; drawTime?: number; password?: string } = {}
+  ) => {
+    setStatus("loading");
+    let code: string;
+    try {
+      code = await allocateRoomCode(createTransport, myId, { checkMs: codeCheckMs });
+    } catch (err) {
+      setError("Could not create a room");
+      setStatus("error");
+      throw err;
+    }
+    passwordHashRef.current = password ? await hashRoomPassword(code, password) : null;
+
+    const me: Player = {
+      id: myId,
+      user_id: myUserId,
+      username,
+      avatar_color: getRandomAvatarColor(),
+      score: 0,
+      is_host: true,
+      is_ready: true,
+      is_connected: true
+    };
+
+    // The host's clock is the room clock
+    clockOffsetRef.current = 0;
+    applyState(createGameState(code, me, { total_rounds: rounds, draw_time: drawTime, has_password: !!password }));
+
+    await connectToChannel(code, true, me);
+    return code;
+  };
+
+  // Resolves once the host has answered, or we gave up waiting: null when
+  // we're in, else why not. Without a password we offer the one remembered
+  // for this room, if any.
+  const joinRoom = async (code: string, username: string, password = ""): Promise<JoinFailure | null> => {
+    setStatus("loading");
+    const stored = useGameStore.getState();
+    passwordHashRef.current = password
+      ? await hashRoomPassword(code, password)
+      : stored.roomCode === code ? stored.roomPasswordHash : null;
+
+    const me: Player = {
+      id: myId,
+      user_id: myUserId,
+      username,
+      avatar_color: getRandomAvatarColor(),
+      score: 0,
+      is_host: false,
+      is_ready: false,
+      is_connected: true
+    };
+
+    // We don't have room state yet, we need to ask for it
+    applyState(null);
+    seqRef.current = 0;
+    seqSourceRef.current = null;
+    clockOffsetRef.current = 0;
+    const answered = new Promise<JoinFailure | null>(resolve => {
+      joinWaiterRef.current = resolve;
+    });
+    const timeout = setTimeout(() => failJoin('not_found'), joinTimeoutMs);
+    try {
+      await connectToChannel(code, false, me);
+      return await answered;
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  // Give up on a join that hasn't gone through, and say why
+  const failJoin = async (failure: JoinFailure) => {
+    const settle = joinWaiterRef.current;
+    if (!settle) return;
+    joinWaiterRef.current = null;
+    await leaveRoom();
+    setError(JOIN_FAILURE_MESSAGES[failure]);
+    setStatus("error");
+    settle(failure);
+  };
+
+  const connectToChannel = async (code: string, hosting: boolean, me: Player) => {
+    await transportRef.current?.close();
+
+    const stored = useGameStore.getState();
+    stored.setPlayer(myId, me.username);
+    stored.setRoom(code, passwordHashRef.current);
+
+    const transport = createTransport(`room:${code}`, myId);
+    transportRef.current = transport;
+
+    // Guests take state and verdicts from the host only: the one in our copy
+    // of the state, or whoever presence elects once that one is gone. Before
+    // the first snapshot names the host nobody can be checked, so a joiner
+    // only listens for that snapshot, a password challenge or being turned away.
+    const fromHost = (event: RoomEvent, sender: string) => {
+      const current = gameRef.current;
+      if (!current) return event === 'gameState' || event === 'joinChallenge' || event === 'joinRejected';
+      return sender === current.room.host_id || sender === electHost(current, connectedIdsRef.current);
+    };
+
+    // Every payload is validated before use, and only by the side that acts on
+    // it: the host for player actions, guests for state from the host
+    const listen = <E extends RoomEvent>(
+      event: E,
+      audience: 'host' | 'guests',
+      handler: (payload: EventPayload<E>, sender: string) => void
+    ) => {
+      transport.on(event, (raw, sender) => {
+        const amHost = gameRef.current?.room.host_id === myId;
+        if ((audience === 'host') !== amHost) return;
+        if (audience === 'guests' && !fromHost(event, sender)) return;
+        const payload = parseEvent(event, raw, sender);
+        if (payload) handler(payload, sender);
+      });
+    };
+
+    // Full snapshot, sent only on request. Sequence numbers only compare
+    // between messages from the same host.
+    listen('gameState', 'guests', ({ seq, state }, sender) => {
+      // Our first snapshot has to come from the host it names, and seat us:
+      // snapshots go to the whole channel, so one sent for someone else while
+      // our password is still being checked doesn't mean we're in
+      if (!gameRef.current && (state.room.host_id !== sender || !state.players.some(p => p.id === myId))) return;
+      if (gameRef.current && sender === seqSourceRef.current && seq < seqRef.current) return;
+      cancelSnapshotRequest();
+      seqSourceRef.current = sender;
+      receiveState(state, seq);
+    });
+    listen('statePatch', 'guests', ({ seq, patches }, sender) => {
+      const current = gameRef.current;
+      const sameHost = sender === seqSourceRef.current;
+      if (current && sameHost && seq <= seqRef.current) return; // already have it
+      if (!current || !sameHost || seq !== seqRef.current + 1) {
+        // Missed something, a new host, or still joining: start over from a snapshot
+        requestSnapshot();
+        return;
+      }
+      receiveState(applyPatches(current, patches), seq);
+    });
+    // Someone else sending state means two of us think we're host. The one
+    // presence has seen longer keeps the room.
+    const otherHost = (_: unknown, sender: string) => {
+      const connectedIds = connectedIdsRef.current;
+      const theirs = connectedIds.indexOf(sender);
+      const mine = connectedIds.indexOf(myId);
+      if (theirs < 0 || (mine >= 0 && mine < theirs)) return;
+      if (gameRef.current?.players.some(p => p.id === sender)) stepDown(sender);
+    };
+    listen('gameState', 'host', otherHost);
+    listen('statePatch', 'host', otherHost);
+    // Guest Requesting State. Only players get an answer, but it goes to the
+    // whole channel like everything else: the state is no secret from anyone
+    // who knows the room code.
+    listen('requestState', 'host', (_, sender) => {
+      if (gameRef.current?.players.some(p => p.id === sender)) sendSnapshot();
+    });
+    // Joiners waiting on a password challenge, by sender
+    const challenges = new Map<string, { player: Player; nonce: string }>();
+    const admit = (player: Player, sender: string, passwordMatches: boolean) => {
+      // Turned away players are told why rather than left waiting
+      const rejection = gameRef.current && rejectJoin(gameRef.current, player, passwordMatches);
+      if (rejection) {
+        transport.send('joinRejected', { playerId: sender, reason: rejection });
+        return;
+      }
+      dispatch({ type: 'playerJoined', player, senderId: sender, passwordMatches });
+      // Their own request may have come before they were in
+      sendSnapshot();
+    };
+    // New Player Joined (via Broadcast for immediate feedback, though Presence handles list)
+    listen('playerJoined', 'host', ({ player }, sender) => {
+      const current = gameRef.current;
+      if (!current) return;
+      const rejection = rejectJoin(current, player);
+      if (rejection) {
+        transport.send('joinRejected', { playerId: sender, reason: rejection });
+      } else if (!rejectJoin(current, player, false)) {
+        // No room password; everyone else proves it, even coming back to their seat
+        admit(player, sender, false);
+      } else {
+        const nonce = createJoinNonce();
+        challenges.set(sender, { player, nonce });
+        transport.send('joinChallenge', { playerId: sender, nonce });
+      }
+    });
+    listen('joinResponse', 'host', async ({ proof }, sender) => {
+      const challenge = challenges.get(sender);
+      if (!challenge) return;
+      challenges.delete(sender);
+      // A host that never learnt the password (it joined without one) lets nobody new in
+      const hash = passwordHashRef.current;
+      const passwordMatches = !!hash && !!proof && proof === await proveRoomPassword(hash, challenge.nonce);
+      admit(challenge.player, sender, passwordMatches);
+    });
+    listen('joinChallenge', 'guests', async ({ playerId, nonce }) => {
+      if (playerId !== myId) return;
+      const hash = passwordHashRef.current;
+      transport.send('joinResponse', { proof: hash ? await proveRoomPassword(hash, nonce) : null });
+    });
+    listen('joinRejected', 'guests', ({ playerId, reason }) => {
+      if (playerId === myId) failJoin(reason);
+    });
+    // Player Actions
+    listen('submitDrawing', 'host', ({ drawing }, sender) => {
+      // Everyone will load this ref, so it has to point into our drawing store
+      if (!store.owns(drawing.image_ref)) {
+        console.warn("Rejected 'submitDrawing': image is not in the drawing store");
+        return;
+      }
+      dispatch({ type: 'submitDrawing', drawing, senderId: sender });
+    });
+    listen('submitVote', 'host', ({ vote }, sender) => {
+      dispatch({ type: 'castVote', vote, senderId: sender });
+    });
+    listen('setReady', 'host', ({ ready }, sender) => {
+      dispatch({ type: 'setReady', ready, senderId: sender });
+    });
+    // Only the host can send anyone home
+    listen('kicked', 'guests', ({ playerId, banned }, sender) => {
+      if (playerId !== myId || sender !== gameRef.current?.room.host_id) return;
+      setRemoval({ code, banned });
+      leaveRoom();
+    });
+    // Clock sync: the host stamps pings with the room clock...
+    listen('timePing', 'host', ({ clientTime }, sender) => {
+      transport.send('timePong', { requesterId: sender, clientTime, hostTime: now() });
+    });
+    // ...and the guest keeps the offset from its fastest round trip
+    listen('timePong', 'guests', ({ requesterId, clientTime, hostTime }) => {
+      if (requesterId !== myId) return;
+      const samples = [...timeSamplesRef.current, measureSample(clientTime, hostTime, Date.now())];
+      timeSamplesRef.current = samples;
+      clockOffsetRef.current = bestOffset(samples);
+      if (samples.length < TIME_SYNC_SAMPLES) sendTimePing();
+    });
+    transport.onPresence(handlePresence);
+
+    try {
+      await transport.subscribe();
+    } catch (err) {
+      console.error("Failed to connect to room:", err);
+      if (!hosting) {
+        failJoin('connection_failed');
+        return;
+      }
+      setError("Could not connect to the room");
+      setStatus("error");
+      return;
+    }
+
+    if (hosting) {
+      // We are CREATING/HOSTING
+      seqRef.current = 0;
+      setStatus("connected");
+      return;
+    }
+
+    // We are JOINING
+    // The host will pick up 'playerJoined' and add us to their state
+    transport.send('playerJoined', { player: me });
+
+    // Patches are useless until we have a snapshot to apply them to
+    cancelSnapshotRequest();
+    requestSnapshot();
+
+    // Wait for response... handled in 'gameState' listener
+  };
+
+  // Send an action to the host, or apply it directly if we are the host
+  const sendAction = (event: string, payload: Record<string, unknown>, action: GameAction) => {
+    if (gameRef.current?.room.host_id === myId) {
+      dispatch(action);
+    } else {
+      transportRef.current?.send(event, payload);
+    }
+  };
+
+  // --- Host Functions ---
+
+  const isHost = game?.room.host_id === myId;
+
+  const startGame = async () => {
+    dispatch({ type: 'startGame' });
+  };
+
+  const updateSettings = (settings: Partial<Room>) => {
+    dispatch({ type: 'updateSettings', settings });
+  };
+
+  // Remove a player (for good with `ban`, by user id) and tell them why
+  const kickPlayer = (playerId: string, ban = false) => {
+    if (!isHost) return;
+    dispatch({ type: 'kickPlayer', playerId, ban });
+    transportRef.current?.send('kicked', { playerId, banned: ban });
+  };
+
+  // Election keeps a present host in place, so the new host stays put
+  const transferHost = (playerId: string) => {
+    const target = gameRef.current?.players.find(p => p.id === playerId);
+    if (!isHost || !target?.is_connected) return;
+    dispatch({ type: 'migrateHost', hostId: playerId });
+  };
+
+  // Public rooms: while we host one, keep its listing in the directory's presence
+  const directoryRef = useRef<RoomTransport | null>(null);
+  const advertising = isHost && !!game?.room.is_public;
+  const listing = advertising ? JSON.stringify(toListing(game)) : null;
+
+  useEffect(() => {
+    if (!advertising) return;
+    const directory = createTransport(DIRECTORY_CHANNEL, myId);
+    directoryRef.current = directory;
+    // The listing itself follows in the effect below
+    directory.subscribe().catch(err => console.warn("Could not list the room publicly:", err));
+    return () => {
+      directoryRef.current = null;
+      directory.close();
+    };
+  }, [advertising, createTransport, myId]);
+
+  useEffect(() => {
+    if (listing) directoryRef.current?.setMeta(JSON.parse(listing));
+  }, [listing]);
+
+  // Browse public rooms; returns a function that stops watching
+  const watchPublicRooms = useCallback((onChange: (rooms: RoomListing[]) => void) => {
+    const directory = createTransport(DIRECTORY_CHANNEL, `${myId}:browser`);
+    directory.onPresence(members => onChange(listingsFrom(members)));
+    directory.subscribe()
+      .then(() => onChange(listingsFrom(directory.presence())))
+      .catch(err => console.warn("Could not load public rooms:", err));
+    return () => {
+      directory.close();
+    };
+  }, [createTransport, myId]);
+
+  // Host Loop for Timer / Phase changes
+  useEffect(() => {
+    if (!isHost) return;
+
+    const interval = setInterval(() => dispatch({ type: 'tick' }), 1000);
+    return () => clearInterval(interval);
+  }, [isHost, dispatch]);
+
+
+  // --- Client Functions ---
+
+  // The image goes to the drawing store; only its reference travels over realtime
+  const submitDrawing = async (imageData: string) => {
+    const room = gameRef.current?.room;
+    if (!room) return false;
+    // The host has already closed the round, whatever our own clock says
+    if (room.phase_end_at && now() > new Date(room.phase_end_at).getTime() + LATE_SUBMISSION_GRACE_MS) return false;
+
+    const id = myId + "-" + room.current_round;
+    let imageRef: string;
+    try {
+      imageRef = await store.put(room.code, id, imageData);
+    } catch (err) {
+      console.error("Failed to upload drawing:", err);
+      return false;
+    }
+
+    const drawing: Drawing = {
+      id,
+      player_id: myId,
+      round: room.current_round,
+      image_ref: imageRef
+    };
+    mySubmissionsRef.current.drawing = drawing;
+
+    sendAction('submitDrawing', { drawing }, { type: 'submitDrawing', drawing, senderId: myId });
+    return true;
+  };
+
+  const castVote = async (drawingId: string) => {
+    if (!gameRef.current) return false;
+
+    const vote: Vote = {
+      voter_id: myId,
+      drawing_id: drawingId
+    };
+    mySubmissionsRef.current.vote = vote;
+
+    sendAction('submitVote', { vote }, { type: 'castVote', vote, senderId: myId });
+    return true;
+  };
+
+  const setReady = (ready: boolean) => {
+    sendAction('setReady', { ready }, { type: 'setReady', ready, senderId: myId });
+  };
+
+  const toggleReady = () => {
+    const me = gameRef.current?.players.find(p => p.id === myId);
+    if (me) setReady(!me.is_ready);
+  };
+
+  return {
+    room: game?.room ?? null,
+    players: game?.players ?? [],
+    drawings: game?.drawings ?? [],
+    votes: game?.votes ?? [],
+    playerId: myId,
+    userId: myUserId,
+    isHost,
+    now,
+    roomLoadingState: status,
+    loading: status === "loading",
+    error,
+    createRoom,
+    joinRoom,
+    startGame,
+    submitDrawing,
+    castVote,
+    setReady,
+    toggleReady,
+    updateSettings,
+    resolveDrawing: store.resolve,
+    leaveRoom,
+    watchPublicRooms,
+    kickPlayer,
+    transferHost,
+    removal,
+    dismissRemoval: () => setRemoval(null),
+    // After a reload: the host recognises our id and restores the rest
+    rejoinRoom: (code: string) => joinRoom(code, useGameStore.getState().username || "Player")
+  };
+};
+
+export type RoomApi = ReturnType<typeof useRoomConnection>;
@@ -1,10 +1,17 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
 
-if (!supabaseUrl || !supabaseKey) {
-    throw new Error("Missing Supabase environment variables");
-}
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseKey);
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
+let client: SupabaseClient | null = null;
+
+// Created on first use so local transports work without a Supabase project
+export const getSupabase = (): SupabaseClient => {
+    if (!isSupabaseConfigured) {
+        throw new Error("Missing Supabase environment variables");
+    }
+    if (!client) client = createClient(supabaseUrl, supabaseKey);
+    return client;
+};
@@ -0,0 +1,53 @@
+import { isSupabaseConfigured } from "@/integrations/supabase/client";
+import { indexedDbDrawingStore } from "./indexedDbDrawingStore";
+import { createMemoryDrawingStore } from "./memoryDrawingStore";
+import { supabaseDrawingStore } from "./supabaseDrawingStore";
+import type { DrawingStore } from "./types";
+
+export type { DrawingStore } from "./types";
+export { createMemoryDrawingStore } from "./memoryDrawingStore";
+
+export type DrawingStoreKind = 'supabase' | 'indexeddb' | 'memory';
+
+// VITE_DRAWING_STORE picks the backend; otherwise Supabase Storage when it is
+// configured, else IndexedDB so local multi-tab games still work.
+export const getDrawingStoreKind = (): DrawingStoreKind => {
+  const requested = import.meta.env.VITE_DRAWING_STORE;
+  if (requested === 'supabase' || requested === 'indexeddb' || requested === 'memory') return requested;
+  return isSupabaseConfigured ? 'supabase' : 'indexeddb';
+};
+
+const createDrawingStore = (): DrawingStore => {
+  switch (getDrawingStoreKind()) {
+    case 'supabase': return supabaseDrawingStore;
+    case 'indexeddb': return indexedDbDrawingStore;
+    case 'memory': return createMemoryDrawingStore();
+  }
+};
+
+// Remembers resolved refs so galleries and vote grids fetch each image once.
+// Our own uploads are cached straight away.
+export const withImageCache = (store: DrawingStore): DrawingStore => {
+  const cache = new Map<string, Promise<string>>();
+
+  return {
+    put: async (roomCode, drawingId, dataUrl) => {
+      const ref = await store.put(roomCode, drawingId, dataUrl);
+      cache.set(ref, Promise.resolve(dataUrl));
+      return ref;
+    },
+    resolve: (ref) => {
+      let image = cache.get(ref);
+      if (!image) {
+        image = store.resolve(ref);
+        // Let a failed fetch be retried next time
+        image.catch(() => cache.delete(ref));
+        cache.set(ref, image);
+      }
+      return image;
+    },
+    owns: store.owns,
+  };
+};
+
+export const createDefaultDrawingStore = (): DrawingStore => withImageCache(createDrawingStore());
@@ -0,0 +1,41 @@
+import { imageKey, isImageKey, type DrawingStore } from "./types";
+
+const PREFIX = "idb:";
+const DB_NAME = "draw-to-impress";
+const STORE_NAME = "drawings";
+
+const openDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const run = async <T,>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = op(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Shared by every tab of this browser, which is all the BroadcastChannel transport needs
+export const indexedDbDrawingStore: DrawingStore = {
+  put: async (roomCode, drawingId, dataUrl) => {
+    const key = await imageKey(roomCode, drawingId, dataUrl);
+    await run("readwrite", store => store.put(dataUrl, key));
+    return PREFIX + key;
+  },
+  resolve: async (ref) => {
+    if (!indexedDbDrawingStore.owns(ref)) throw new Error(`Unknown drawing ${ref}`);
+    const image = await run<string | undefined>("readonly", store => store.get(ref.slice(PREFIX.length)));
+    if (!image) throw new Error(`Missing drawing ${ref}`);
+    return image;
+  },
+  owns: (ref) => ref.startsWith(PREFIX) && isImageKey(ref.slice(PREFIX.length)),
+};
@@ -0,0 +1,24 @@
+import { imageKey, isImageKey, type DrawingStore } from "./types";
+
+const PREFIX = "memory:";
+
+// Keeps images in this page only; for tests and single-tab play
+export const createMemoryDrawingStore = (): DrawingStore => {
+  const images = new Map<string, string>();
+
+  const owns = (ref: string) => ref.startsWith(PREFIX) && isImageKey(ref.slice(PREFIX.length));
+
+  return {
+    put: async (roomCode, drawingId, dataUrl) => {
+      const key = await imageKey(roomCode, drawingId, dataUrl);
+      images.set(key, dataUrl);
+      return PREFIX + key;
+    },
+    resolve: async (ref) => {
+      const image = owns(ref) && images.get(ref.slice(PREFIX.length));
+      if (!image) throw new Error(`Unknown drawing ${ref}`);
+      return image;
+    },
+    owns,
+  };
+};
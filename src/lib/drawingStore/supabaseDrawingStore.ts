@@ -0,0 +1,29 @@
+import { getSupabase } from "@/integrations/supabase/client";
+import { imageKey, isImageKey, type DrawingStore } from "./types";
+
+const BUCKET = "drawings";
+
+// Where every public URL of the bucket starts
+const publicBase = () => getSupabase().storage.from(BUCKET).getPublicUrl("").data.publicUrl;
+
+// Uploads to a public Supabase Storage bucket; the ref is the public URL
+export const supabaseDrawingStore: DrawingStore = {
+  put: async (roomCode, drawingId, dataUrl) => {
+    const storage = getSupabase().storage.from(BUCKET);
+    const key = await imageKey(roomCode, drawingId, dataUrl);
+    const blob = await (await fetch(dataUrl)).blob();
+
+    const { error } = await storage.upload(key, blob, { contentType: "image/png", upsert: true });
+    if (error) throw error;
+
+    return storage.getPublicUrl(key).data.publicUrl;
+  },
+  resolve: async (ref) => {
+    if (!supabaseDrawingStore.owns(ref)) throw new Error(`Unknown drawing ${ref}`);
+    return ref;
+  },
+  owns: (ref) => {
+    const base = publicBase();
+    return ref.startsWith(base) && isImageKey(ref.slice(base.length));
+  },
+};
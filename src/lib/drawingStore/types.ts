@@ -0,0 +1,21 @@
+// Drawings are uploaded out of band; realtime messages only carry the ref
+export interface DrawingStore {
+  // Store a PNG data URL and resolve with a small reference safe to broadcast
+  put(roomCode: string, drawingId: string, dataUrl: string): Promise<string>;
+  // Turn a reference back into something an <img> can show; refs this store
+  // didn't hand out are refused
+  resolve(ref: string): Promise<string>;
+  // Whether a ref is one of ours. Refs arrive from other players, so anything
+  // else (say, a URL to some other site) must never reach an <img>.
+  owns(ref: string): boolean;
+}
+
+// Content-addressed object key, so a re-submitted image never serves a stale cache entry
+export const imageKey = async (roomCode: string, drawingId: string, dataUrl: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(dataUrl));
+  const hash = Array.from(new Uint8Array(digest).slice(0, 8), b => b.toString(16).padStart(2, "0")).join("");
+  return `${roomCode}/${drawingId}-${hash}.png`;
+};
+
+// Whether a string has the shape of a key made by imageKey
+export const isImageKey = (key: string) => /^[A-Za-z0-9]+\/[\w-]+-[0-9a-f]{16}\.png$/.test(key);
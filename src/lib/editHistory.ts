@@ -0,0 +1,58 @@
+// Undo/redo as a stack of commands. Each edit knows how to reverse itself and
+// how to redo that, and is already applied when it is pushed.
+
+export interface Edit {
+  undo: () => void;
+  redo: () => void;
+}
+
+export interface EditHistory {
+  push: (edit: Edit) => void;
+  // Whether there was anything to undo/redo
+  undo: () => boolean;
+  redo: () => boolean;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  reset: () => void;
+}
+
+// A couple of minutes of busy scribbling
+export const MAX_HISTORY = 200;
+
+export const createEditHistory = (limit = MAX_HISTORY): EditHistory => {
+  let done: Edit[] = [];
+  let undone: Edit[] = [];
+
+  return {
+    // Anything new makes the undone edits unreachable
+    push: (edit) => {
+      done.push(edit);
+      if (done.length > limit) done.shift();
+      undone = [];
+    },
+
+    undo: () => {
+      const edit = done.pop();
+      if (!edit) return false;
+      edit.undo();
+      undone.push(edit);
+      return true;
+    },
+
+    redo: () => {
+      const edit = undone.pop();
+      if (!edit) return false;
+      edit.redo();
+      done.push(edit);
+      return true;
+    },
+
+    canUndo: () => done.length > 0,
+    canRedo: () => undone.length > 0,
+
+    reset: () => {
+      done = [];
+      undone = [];
+    },
+  };
+};
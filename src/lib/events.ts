@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { MAX_USERNAME_LENGTH, type Drawing, type JoinRejectReason, type Player, type Vote } from "@/lib/gameEngine";
+import type { PatchMessage, SnapshotMessage } from "@/lib/stateSync";
+
+// Runtime shapes of everything that crosses the realtime channel. Payloads come
+// from other browsers, so nothing is trusted until it has passed these.
+
+const id = z.string().min(1).max(64);
+const isoDate = z.string().datetime();
+
+export const playerSchema = z.object({
+  id,
+  user_id: id,
+  username: z.string().trim().min(1).max(MAX_USERNAME_LENGTH),
+  avatar_color: z.string().regex(/^#[0-9a-fA-F]{3,8}$/),
+  score: z.number().int().min(0),
+  is_host: z.boolean(),
+  is_ready: z.boolean(),
+  is_connected: z.boolean(),
+});
+
+export const roomSchema = z.object({
+  id: z.string().min(1).max(16),
+  code: z.string().min(1).max(16),
+  host_id: id,
+  status: z.enum(['lobby', 'drawing', 'gallery', 'voting', 'results', 'finished']),
+  current_round: z.number().int().min(0).max(100),
+  total_rounds: z.number().int().min(1).max(20),
+  draw_time: z.number().int().min(5).max(600),
+  vote_time: z.number().int().min(5).max(600),
+  max_players: z.number().int().min(2).max(50),
+  current_prompt: z.string().max(200).nullable(),
+  phase_end_at: isoDate.nullable(),
+  used_prompts: z.array(z.string().max(200)).max(200),
+  advance_grace: z.number().int().min(0).max(60).nullable(),
+  require_ready: z.boolean(),
+  banned_user_ids: z.array(id).max(100),
+  allow_late_join: z.boolean(),
+  has_password: z.boolean(),
+  is_public: z.boolean(),
+  freehand_only: z.boolean(),
+});
+
+export const drawingSchema = z.object({
+  id: z.string().min(1).max(80),
+  player_id: id,
+  round: z.number().int().min(0).max(100),
+  image_ref: z.string().min(1).max(1024),
+});
+
+export const voteSchema = z.object({
+  voter_id: id,
+  drawing_id: z.string().min(1).max(80),
+});
+
+export const gameStateSchema = z.object({
+  room: roomSchema,
+  players: z.array(playerSchema).max(50),
+  drawings: z.array(drawingSchema).max(50),
+  votes: z.array(voteSchema).max(2500),
+});
+
+const statePatchSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('roomUpdated'), room: roomSchema }),
+  z.object({ type: z.literal('playerUpdated'), player: playerSchema }),
+  z.object({ type: z.literal('playerRemoved'), playerId: id }),
+  z.object({ type: z.literal('drawingAdded'), drawing: drawingSchema }),
+  z.object({ type: z.literal('drawingRemoved'), drawingId: z.string().min(1).max(80) }),
+  z.object({ type: z.literal('voteCast'), vote: voteSchema }),
+  z.object({ type: z.literal('voteRemoved'), voterId: id, drawingId: z.string().min(1).max(80) }),
+]);
+
+const seq = z.number().int().min(0);
+const timestamp = z.number().int().min(0);
+
+// What each event carries once validated
+export interface EventPayloads {
+  gameState: SnapshotMessage;
+  statePatch: PatchMessage;
+  requestState: { requesterId: string };
+  playerJoined: { player: Player };
+  joinChallenge: { playerId: string; nonce: string };
+  joinResponse: { proof: string | null };
+  submitDrawing: { drawing: Drawing };
+  submitVote: { vote: Vote };
+  setReady: { ready: boolean };
+  kicked: { playerId: string; banned: boolean };
+  joinRejected: { playerId: string; reason: JoinRejectReason };
+  timePing: { clientTime: number };
+  timePong: { requesterId: string; clientTime: number; hostTime: number };
+}
+
+export type RoomEvent = keyof EventPayloads;
+export type EventPayload<E extends RoomEvent> = EventPayloads[E];
+
+export const EVENT_SCHEMAS: Record<RoomEvent, z.ZodTypeAny> = {
+  gameState: z.object({ seq, state: gameStateSchema }),
+  statePatch: z.object({ seq, patches: z.array(statePatchSchema).min(1).max(200) }),
+  requestState: z.object({ requesterId: id }),
+  playerJoined: z.object({ player: playerSchema }),
+  joinChallenge: z.object({ playerId: id, nonce: z.string().regex(/^[0-9a-f]{32}$/) }),
+  joinResponse: z.object({ proof: z.string().regex(/^[0-9a-f]{64}$/).nullable() }),
+  submitDrawing: z.object({ drawing: drawingSchema }),
+  submitVote: z.object({ vote: voteSchema }),
+  setReady: z.object({ ready: z.boolean() }),
+  kicked: z.object({ playerId: id, banned: z.boolean() }),
+  joinRejected: z.object({ playerId: id, reason: z.enum(['wrong_password', 'room_full', 'in_progress', 'banned', 'name_taken']) }),
+  timePing: z.object({ clientTime: timestamp }),
+  timePong: z.object({ requesterId: id, clientTime: timestamp, hostTime: timestamp }),
+};
+
+// Serialized size limits (bytes). Anything from a player should be tiny now
+// that drawings travel by reference; host snapshots are the only big message.
+const DEFAULT_MAX_BYTES = 4 * 1024;
+const MAX_BYTES: Partial<Record<RoomEvent, number>> = {
+  gameState: 128 * 1024,
+  statePatch: 64 * 1024,
+};
+
+// Returns the validated payload, or null (and logs why) if it must be dropped
+export const parseEvent = <E extends RoomEvent>(event: E, payload: unknown, sender: string): EventPayload<E> | null => {
+  const size = JSON.stringify(payload ?? null).length;
+  const limit = MAX_BYTES[event] ?? DEFAULT_MAX_BYTES;
+  if (size > limit) {
+    console.warn(`Rejected oversized '${event}' from ${sender}: ${size} bytes (limit ${limit})`);
+    return null;
+  }
+
+  const result = EVENT_SCHEMAS[event].safeParse(payload);
+  if (!result.success) {
+    console.warn(`Rejected invalid '${event}' from ${sender}:`, result.error.issues);
+    return null;
+  }
+  return result.data as EventPayload<E>;
+};
@@ -0,0 +1,484 @@
+import { getRandomPrompt } from "@/lib/prompts";
+
+// Framework-free game rules. The host feeds actions through `gameReducer` and
+// shares the resulting state; nothing in here knows about React or Supabase.
+
+export type RoomStatus = 'lobby' | 'drawing' | 'gallery' | 'voting' | 'results' | 'finished';
+
+export interface Room {
+  id: string; // purely for internal ref if needed, but we mostly use 'code'
+  code: string;
+  host_id: string;
+  status: RoomStatus;
+  current_round: number;
+  total_rounds: number;
+  draw_time: number;
+  vote_time: number;
+  max_players: number;
+  current_prompt: string | null;
+  phase_end_at: string | null; // ISO string
+  used_prompts: string[];
+  advance_grace: number | null; // seconds left once everyone has acted; null waits for the timer
+  require_ready: boolean; // start only once every player is ready, then on its own
+  banned_user_ids: string[];
+  allow_late_join: boolean; // let newcomers in while a game is running
+  has_password: boolean; // the password itself stays with the players who know it
+  is_public: boolean; // listed in the public room browser
+  freehand_only: boolean; // no shape, line or text tools while drawing
+}
+
+export interface Player {
+  id: string; // per-tab session id, kept across reloads
+  user_id: string; // persisted browser/auth id, shared by a user's tabs
+  username: string;
+  avatar_color: string;
+  score: number;
+  is_host: boolean;
+  is_ready: boolean; // host is always ready
+  is_connected: boolean; // present on the channel right now
+}
+
+export interface Drawing {
+  id: string;
+  player_id: string;
+  round: number;
+  image_ref: string; // DrawingStore reference, never the image itself
+}
+
+export interface Vote {
+  voter_id: string;
+  drawing_id: string;
+}
+
+export interface GameState {
+  room: Room;
+  players: Player[];
+  drawings: Drawing[];
+  votes: Vote[];
+}
+
+// Why the host turned a join away; sent back to the joining client
+export type JoinRejectReason = 'wrong_password' | 'room_full' | 'in_progress' | 'banned' | 'name_taken';
+
+export const MAX_USERNAME_LENGTH = 20;
+
+// Player-originated actions carry `senderId`, the key the message came in
+// under, which must match the player the payload claims to be. The sending
+// client writes that key itself (no transport authenticates it), so this
+// catches mix-ups and casual tampering, not a modified client posing as
+// someone else. The host checks join passwords itself and passes the verdict in.
+export type GameAction =
+  | { type: 'playerJoined'; player: Player; senderId: string; passwordMatches?: boolean }
+  | { type: 'updateSettings'; settings: Partial<Room> }
+  | { type: 'startGame' }
+  | { type: 'submitDrawing'; drawing: Drawing; senderId: string }
+  | { type: 'castVote'; vote: Vote; senderId: string }
+  | { type: 'setReady'; ready: boolean; senderId: string }
+  | { type: 'tick' }
+  | { type: 'presenceChanged'; connectedIds: string[] }
+  | { type: 'kickPlayer'; playerId: string; ban: boolean }
+  | { type: 'migrateHost'; hostId: string };
+
+// Everything impure the rules depend on, so tests can pin the clock and prompts
+export interface EngineEnv {
+  now: number; // epoch ms
+  pickPrompt: (exclude: string[]) => string;
+}
+
+// Fixed phase lengths (seconds)
+export const GALLERY_TIME = 5;
+export const RESULTS_TIME = 10;
+export const READY_COUNTDOWN = 5;
+
+export const POINTS_PER_VOTE = 100;
+
+// Drawings still in flight when the timer runs out are accepted this long after
+// it, and the host holds the drawing phase open for them
+export const LATE_SUBMISSION_GRACE_MS = 2000;
+
+export const defaultEnv = (): EngineEnv => ({
+  now: Date.now(),
+  pickPrompt: getRandomPrompt,
+});
+
+const phaseEnd = (env: EngineEnv, seconds: number) =>
+  new Date(env.now + seconds * 1000).toISOString();
+
+export const createGameState = (code: string, host: Player, settings: Partial<Room> = {}): GameState => ({
+  room: {
+    id: code,
+    code,
+    host_id: host.id,
+    status: 'lobby',
+    current_round: 0,
+    total_rounds: 3,
+    draw_time: 60,
+    vote_time: 15,
+    max_players: 8,
+    current_prompt: null,
+    phase_end_at: null,
+    used_prompts: [],
+    advance_grace: 3,
+    require_ready: false,
+    banned_user_ids: [],
+    allow_late_join: false,
+    has_password: false,
+    is_public: false,
+    freehand_only: false,
+    ...settings,
+  },
+  players: [{ ...host, is_host: true, is_ready: true, is_connected: true }],
+  drawings: [],
+  votes: [],
+});
+
+// Begin a drawing round with a fresh prompt and no leftover submissions
+const startRound = (state: GameState, round: number, env: EngineEnv): GameState => {
+  const prompt = env.pickPrompt(state.room.used_prompts);
+  return {
+    ...state,
+    room: {
+      ...state.room,
+      status: 'drawing',
+      current_round: round,
+      current_prompt: prompt,
+      used_prompts: [...state.room.used_prompts, prompt],
+      phase_end_at: phaseEnd(env, state.room.draw_time),
+    },
+    drawings: [],
+    votes: [],
+  };
+};
+
+export const scoreVotes = (players: Player[], drawings: Drawing[], votes: Vote[]): Player[] =>
+  players.map(player => {
+    const received = votes.filter(v =>
+      drawings.some(d => d.id === v.drawing_id && d.player_id === player.id)
+    ).length;
+    return received ? { ...player, score: player.score + received * POINTS_PER_VOTE } : player;
+  });
+
+const advancePhase = (state: GameState, env: EngineEnv): GameState => {
+  const { room } = state;
+
+  switch (room.status) {
+    case 'drawing':
+      return { ...state, room: { ...room, status: 'gallery', phase_end_at: phaseEnd(env, GALLERY_TIME) } };
+    case 'gallery':
+      return { ...state, room: { ...room, status: 'voting', phase_end_at: phaseEnd(env, room.vote_time) } };
+    case 'voting':
+      return {
+        ...state,
+        room: { ...room, status: 'results', phase_end_at: phaseEnd(env, RESULTS_TIME) },
+        players: scoreVotes(state.players, state.drawings, state.votes),
+      };
+    case 'results':
+      if (room.current_round >= room.total_rounds) {
+        return { ...state, room: { ...room, status: 'finished', phase_end_at: null } };
+      }
+      return startRound(state, room.current_round + 1, env);
+    default:
+      return state;
+  }
+};
+
+// Hand a player's seat, score, drawing and vote over to a new session id
+const reseatPlayer = (state: GameState, fromId: string, toId: string): GameState => ({
+  ...state,
+  room: state.room.host_id === fromId ? { ...state.room, host_id: toId } : state.room,
+  players: state.players.map(p => (p.id === fromId ? { ...p, id: toId, is_connected: true } : p)),
+  drawings: state.drawings.map(d => (d.player_id === fromId ? { ...d, player_id: toId } : d)),
+  votes: state.votes.map(v => (v.voter_id === fromId ? { ...v, voter_id: toId } : v)),
+});
+
+// Take a player out of the room with everything they did, including votes
+// for their drawing
+const removePlayer = (state: GameState, playerId: string): GameState => {
+  const theirDrawings = state.drawings.filter(d => d.player_id === playerId).map(d => d.id);
+  return {
+    ...state,
+    players: state.players.filter(p => p.id !== playerId),
+    drawings: state.drawings.filter(d => d.player_id !== playerId),
+    votes: state.votes.filter(v => v.voter_id !== playerId && !theirDrawings.includes(v.drawing_id)),
+  };
+};
+
+// Who should be host given the players currently connected, oldest
+// connection first: the sitting host while present, else the longest-connected
+// player. Every client runs this on the same presence list and agrees.
+export const electHost = (state: GameState, connectedIds: string[]): string | null => {
+  if (connectedIds.includes(state.room.host_id)) return state.room.host_id;
+  return connectedIds.find(id => state.players.some(p => p.id === id)) ?? null;
+};
+
+// Whether every connected player has done what this phase asks: drawn a
+// picture, or voted (if there is anything they are allowed to vote for)
+export const everyoneHasActed = (state: GameState): boolean => {
+  const connected = state.players.filter(p => p.is_connected);
+  if (!connected.length) return false;
+
+  switch (state.room.status) {
+    case 'drawing':
+      return connected.every(p => state.drawings.some(d => d.player_id === p.id));
+    case 'voting':
+      return connected
+        .filter(p => state.drawings.some(d => d.player_id !== p.id))
+        .every(p => state.votes.some(v => v.voter_id === p.id));
+    default:
+      return false;
+  }
+};
+
+// Whether the lobby can start: someone to play with, and every connected
+// player has said they are ready
+export const allReady = (players: Player[]): boolean => {
+  const connected = players.filter(p => p.is_connected);
+  return connected.length > 1 && connected.every(p => p.is_host || p.is_ready);
+};
+
+// With require_ready on, the lobby counts down (on phase_end_at) once everyone
+// is ready, and stops again as soon as someone isn't
+const readyCountdown = (state: GameState, env: EngineEnv): GameState => {
+  const { room } = state;
+  if (room.status !== 'lobby') return state;
+
+  const counting = !!room.phase_end_at;
+  const shouldCount = room.require_ready && allReady(state.players);
+  if (counting === shouldCount) return state;
+  return { ...state, room: { ...room, phase_end_at: shouldCount ? phaseEnd(env, READY_COUNTDOWN) : null } };
+};
+
+// A newcomer's name, numbered if someone already has it ("Sam", "Sam 2", ...),
+// or null if no numbered form fits the length limit
+export const uniqueUsername = (players: Player[], username: string): string | null => {
+  const taken = new Set(players.map(p => p.username.toLowerCase()));
+  for (let n = 1; n <= players.length + 1; n++) {
+    const candidate = n === 1 ? username : `${username} ${n}`;
+    if (candidate.length > MAX_USERNAME_LENGTH) return null;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+  return null;
+};
+
+// A full room makes space for a newcomer by letting go of its oldest empty seats
+const freeStaleSeats = (state: GameState): GameState => {
+  let next = state;
+  while (next.players.length >= next.room.max_players) {
+    const stale = next.players.find(p => !p.is_connected && p.id !== next.room.host_id);
+    if (!stale) break;
+    next = removePlayer(next, stale.id);
+  }
+  return next;
+};
+
+// Players actually in the room right now, as capacity and listings count them
+export const connectedCount = (players: Player[]): number =>
+  players.filter(p => p.is_connected).length;
+
+// Whether a joining player may take a seat. Players coming back to a seat they
+// already hold are never turned away for capacity or a running game, but do
+// need the password: ids are in the shared state for anyone on the channel to copy.
+// Only connected players count towards capacity: a newcomer takes over the
+// seat of whoever has been gone longest.
+export const rejectJoin = (state: GameState, player: Player, passwordMatches = true): JoinRejectReason | null => {
+  const { room } = state;
+  if (room.banned_user_ids.includes(player.user_id)) return 'banned';
+  if (room.has_password && !passwordMatches) return 'wrong_password';
+
+  const returning = state.players.some(p => p.id === player.id || (p.user_id === player.user_id && !p.is_connected));
+  if (returning) return null;
+
+  if (connectedCount(state.players) >= room.max_players) return 'room_full';
+  const playing = room.status !== 'lobby' && room.status !== 'finished';
+  if (playing && !room.allow_late_join) return 'in_progress';
+  // Against the seats the newcomer would join, as the reducer names them
+  if (!uniqueUsername(freeStaleSeats(state).players, player.username)) return 'name_taken';
+  return null;
+};
+
+// Pull the deadline in to a short grace countdown once nobody is left to wait for
+const advanceEarly = (state: GameState, env: EngineEnv): GameState => {
+  const { room } = state;
+  if (room.advance_grace === null || !room.phase_end_at || !everyoneHasActed(state)) return state;
+
+  const graceEnd = env.now + room.advance_grace * 1000;
+  if (graceEnd >= new Date(room.phase_end_at).getTime()) return state;
+  return { ...state, room: { ...room, phase_end_at: new Date(graceEnd).toISOString() } };
+};
+
+const phaseOpen = (room: Room, env: EngineEnv, graceMs = 0) =>
+  !!room.phase_end_at && env.now <= new Date(room.phase_end_at).getTime() + graceMs;
+
+// Why the host must ignore an action, or null if it is allowed. The reducer
+// applies these same rules; this exists so the host can log rejections.
+export const rejectAction = (state: GameState, action: GameAction, env: EngineEnv = defaultEnv()): string | null => {
+  const { room } = state;
+
+  switch (action.type) {
+    case 'playerJoined': {
+      if (action.player.id !== action.senderId) return "player id does not match sender";
+      const rejection = rejectJoin(state, action.player, action.passwordMatches);
+      return rejection && `join refused: ${rejection}`;
+    }
+
+    case 'kickPlayer':
+      if (action.playerId === room.host_id) return "the host cannot be kicked";
+      if (!state.players.some(p => p.id === action.playerId)) return "no such player";
+      return null;
+
+    case 'startGame':
+      if (room.status === 'lobby' && room.require_ready && !allReady(state.players)) return "not everyone is ready";
+      return null;
+
+    case 'setReady':
+      if (!state.players.some(p => p.id === action.senderId)) return "sender is not in the room";
+      if (room.status !== 'lobby') return "the game has already started";
+      return null;
+
+    case 'submitDrawing': {
+      const { drawing, senderId } = action;
+      if (drawing.player_id !== senderId) return "drawing submitted on behalf of another player";
+      if (!state.players.some(p => p.id === senderId)) return "sender is not in the room";
+      if (room.status !== 'drawing') return `drawings are closed during ${room.status}`;
+      if (!phaseOpen(room, env, LATE_SUBMISSION_GRACE_MS)) return "drawing time is up";
+      if (drawing.round !== room.current_round) return "drawing is for another round";
+      if (state.drawings.some(d => d.player_id === senderId)) return "already submitted this round";
+      return null;
+    }
+
+    case 'castVote': {
+      const { vote, senderId } = action;
+      if (vote.voter_id !== senderId) return "vote cast on behalf of another player";
+      if (!state.players.some(p => p.id === senderId)) return "sender is not in the room";
+      if (room.status !== 'voting') return `voting is closed during ${room.status}`;
+      if (!phaseOpen(room, env)) return "voting time is up";
+      const drawing = state.drawings.find(d => d.id === vote.drawing_id);
+      if (!drawing) return "no such drawing this round";
+      if (drawing.player_id === senderId) return "cannot vote for your own drawing";
+      return null;
+    }
+
+    default:
+      return null;
+  }
+};
+
+const reduceAction = (state: GameState, action: GameAction, env: EngineEnv): GameState => {
+  switch (action.type) {
+    case 'playerJoined': {
+      const { player } = action;
+
+      // Same tab coming back (reload, or a new page joining again): keep the
+      // seat as it was, only flag it connected
+      const seated = state.players.find(p => p.id === player.id);
+      if (seated) {
+        if (seated.is_connected) return state;
+        return { ...state, players: state.players.map(p => (p === seated ? { ...p, is_connected: true } : p)) };
+      }
+
+      // Same user from a new tab while their old seat is empty: move the seat over
+      const returning = state.players.find(p => p.user_id === player.user_id && !p.is_connected);
+      if (returning) return reseatPlayer(state, returning.id, player.id);
+
+      const next = freeStaleSeats(state);
+      // Newcomers start from zero whatever their client claims
+      const newcomer: Player = {
+        ...player,
+        username: uniqueUsername(next.players, player.username),
+        score: 0,
+        is_host: false,
+        is_ready: false,
+        is_connected: true,
+      };
+      return { ...next, players: [...next.players, newcomer] };
+    }
+
+    case 'updateSettings':
+      return { ...state, room: { ...state.room, ...action.settings } };
+
+    case 'startGame': {
+      // "Play Again" from the final screen starts over with clean scores
+      const reset: GameState = {
+        ...state,
+        room: { ...state.room, used_prompts: [] },
+        players: state.players.map(p => (p.score ? { ...p, score: 0 } : p)),
+      };
+      return startRound(reset, 1, env);
+    }
+
+    case 'submitDrawing': {
+      // One drawing per player per round, under an id the host controls
+      const { drawing } = action;
+      const accepted: Drawing = { ...drawing, id: `${drawing.player_id}-${drawing.round}` };
+      return advanceEarly({ ...state, drawings: [...state.drawings, accepted] }, env);
+    }
+
+    case 'castVote': {
+      // One vote per voter: voting again moves the vote
+      const { vote } = action;
+      const previous = state.votes.find(v => v.voter_id === vote.voter_id);
+      if (previous?.drawing_id === vote.drawing_id) return state;
+      return advanceEarly({ ...state, votes: [...state.votes.filter(v => v !== previous), vote] }, env);
+    }
+
+    case 'setReady': {
+      const { ready, senderId } = action;
+      const player = state.players.find(p => p.id === senderId);
+      if (player.is_ready === ready) return state;
+      return { ...state, players: state.players.map(p => (p === player ? { ...p, is_ready: ready } : p)) };
+    }
+
+    case 'tick': {
+      const { status, phase_end_at } = state.room;
+      if (status === 'finished' || !phase_end_at) return state;
+      if (status === 'lobby') {
+        // Ready countdown over
+        return env.now < new Date(phase_end_at).getTime() ? state : startRound(state, 1, env);
+      }
+      // Wait out the late-submission grace unless every drawing is already in
+      const graceMs = status === 'drawing' && !everyoneHasActed(state) ? LATE_SUBMISSION_GRACE_MS : 0;
+      if (env.now < new Date(phase_end_at).getTime() + graceMs) return state;
+      return advancePhase(state, env);
+    }
+
+    case 'kickPlayer': {
+      const { playerId, ban } = action;
+      const kicked = state.players.find(p => p.id === playerId);
+      const room = ban ? { ...state.room, banned_user_ids: [...state.room.banned_user_ids, kicked.user_id] } : state.room;
+      return advanceEarly(removePlayer({ ...state, room }, playerId), env);
+    }
+
+    case 'presenceChanged': {
+      let changed = false;
+      const players = state.players.map(p => {
+        const connected = action.connectedIds.includes(p.id);
+        if (connected === p.is_connected) return p;
+        changed = true;
+        return { ...p, is_connected: connected };
+      });
+      // Someone leaving may mean everyone left has acted
+      return changed ? advanceEarly({ ...state, players }, env) : state;
+    }
+
+    case 'migrateHost': {
+      if (action.hostId === state.room.host_id) return state;
+      if (!state.players.some(p => p.id === action.hostId)) return state;
+      return {
+        ...state,
+        room: { ...state.room, host_id: action.hostId },
+        players: state.players.map(p => ({ ...p, is_host: p.id === action.hostId, is_ready: p.is_ready || p.id === action.hostId })),
+      };
+    }
+
+    default:
+      return state;
+  }
+};
+
+// Returns the same state object when an action changes nothing, so callers
+// can skip re-broadcasting.
+export const gameReducer = (state: GameState, action: GameAction, env: EngineEnv = defaultEnv()): GameState => {
+  if (rejectAction(state, action, env)) return state;
+  // Joins, leaves, settings and ready toggles can all start or stop the countdown
+  return readyCountdown(reduceAction(state, action, env), env);
+};
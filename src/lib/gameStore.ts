@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { createJSONStorage, persist } from 'zustand/middleware';
 
 export interface Player {
   id: string;
@@ -35,14 +35,29 @@ export interface Room {
   phase_end_at: string | null;
 }
 
+export interface BrushSettings {
+  color: string;
+  width: number;
+  opacity: number;
+  fillShapes: boolean;
+  recentColors: string[];
+}
+
+export const DEFAULT_BRUSH: BrushSettings = { color: '#1a1a2e', width: 4, opacity: 1, fillShapes: false, recentColors: [] };
+const MAX_RECENT_COLORS = 8;
+
 interface GameState {
   playerId: string | null;
   roomCode: string | null;
+  roomPasswordHash: string | null; // so a reload can rejoin a private room
   username: string | null;
+  brush: BrushSettings; // kept across rounds and games, unlike the rest
   
   setPlayer: (playerId: string, username: string) => void;
-  setRoom: (roomCode: string) => void;
+  setRoom: (roomCode: string | null, roomPasswordHash?: string | null) => void;
   clearGame: () => void;
+  setBrush: (brush: Partial<BrushSettings>) => void;
+  rememberColor: (color: string) => void;
 }
 
 export const useGameStore = create<GameState>()(
@@ -50,26 +65,37 @@ export const useGameStore = create<GameState>()(
     (set) => ({
       playerId: null,
       roomCode: null,
+      roomPasswordHash: null,
       username: null,
+      brush: DEFAULT_BRUSH,
       
       setPlayer: (playerId, username) => set({ playerId, username }),
-      setRoom: (roomCode) => set({ roomCode }),
-      clearGame: () => set({ playerId: null, roomCode: null, username: null }),
+      setRoom: (roomCode, roomPasswordHash = null) => set({ roomCode, roomPasswordHash }),
+      clearGame: () => set({ playerId: null, roomCode: null, roomPasswordHash: null, username: null }),
+      setBrush: (brush) => set(state => ({ brush: { ...state.brush, ...brush } })),
+      rememberColor: (color) => set(state => ({
+        brush: {
+          ...state.brush,
+          recentColors: [color, ...state.brush.recentColors.filter(c => c !== color)].slice(0, MAX_RECENT_COLORS),
+        },
+      })),
     }),
     {
       name: 'draw-to-impress-game',
+      // Per tab, so a reload keeps your seat while two tabs stay two players
+      storage: createJSONStorage(() => sessionStorage),
     }
   )
 );
 
-// Generate a random room code
-export const generateRoomCode = (): string => {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-  let code = '';
-  for (let i = 0; i < 5; i++) {
-    code += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return code;
+// This tab's player id, created on first use and kept for the session
+export const getOrCreatePlayerId = (): string => {
+  const { playerId, username, setPlayer } = useGameStore.getState();
+  if (playerId) return playerId;
+
+  const id = "player-" + Math.random().toString(36).substr(2, 9);
+  setPlayer(id, username ?? "");
+  return id;
 };
 
 // Avatar colors
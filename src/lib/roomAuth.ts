@@ -0,0 +1,63 @@
+import { getSupabase } from "@/integrations/supabase/client";
+
+// Who may create rooms:
+// - 'open': anyone
+// - 'password': whoever knows the host password whose SHA-256 is in VITE_HOST_PASSWORD_HASH
+// - 'supabase': an anonymous Supabase user the `authorize-host` edge function
+//   lets through (allow-list of user ids, or the host secret, both server-side)
+export type HostAuthKind = 'open' | 'password' | 'supabase';
+
+export const getHostAuthKind = (): HostAuthKind => {
+  const kind = import.meta.env.VITE_HOST_AUTH;
+  if (kind === 'open' || kind === 'password' || kind === 'supabase') return kind;
+  return import.meta.env.VITE_HOST_PASSWORD_HASH ? 'password' : 'open';
+};
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, "0")).join("");
+
+export const sha256Hex = async (text: string): Promise<string> =>
+  toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)));
+
+// Rooms live on broadcast channels with no server in between, so this gates
+// the app's own create flow; it cannot stop a modified client.
+export const authorizeHost = async (secret: string): Promise<boolean> => {
+  switch (getHostAuthKind()) {
+    case 'open':
+      return true;
+
+    case 'password':
+      return (await sha256Hex(secret)) === import.meta.env.VITE_HOST_PASSWORD_HASH?.trim().toLowerCase();
+
+    case 'supabase': {
+      const supabase = getSupabase();
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        const { error } = await supabase.auth.signInAnonymously();
+        if (error) throw error;
+      }
+      const { data, error } = await supabase.functions.invoke<{ allowed: boolean }>('authorize-host', {
+        body: { secret },
+      });
+      if (error) throw error;
+      return data?.allowed === true;
+    }
+  }
+};
+
+// What players keep instead of the room password. Salted with the room code,
+// so a password reused across rooms doesn't give the same hash.
+export const hashRoomPassword = (code: string, password: string): Promise<string> =>
+  sha256Hex(`${code}:${password}`);
+
+// The host challenges every joiner with a fresh nonce...
+export const createJoinNonce = (): string => toHex(crypto.getRandomValues(new Uint8Array(16)));
+
+// ...and the joiner answers with an HMAC of it keyed by the password hash. The
+// hash itself never goes over the channel, and an answer overheard once is
+// no good for the next challenge.
+export const proveRoomPassword = async (passwordHash: string, nonce: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(passwordHash), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(nonce)));
+};
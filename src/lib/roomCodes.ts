@@ -0,0 +1,69 @@
+import type { TransportFactory } from "@/lib/transport";
+
+// No 0/O or 1/I, so codes survive being read out loud
+export const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const DEFAULT_CODE_LENGTH = 5;
+export const MIN_CODE_LENGTH = 4;
+export const MAX_CODE_LENGTH = 8;
+
+// How long to listen on a candidate channel for anyone already there
+export const CODE_CHECK_MS = 750;
+const CODE_ATTEMPTS = 5;
+
+export const getRoomCodeLength = (): number => {
+  const requested = parseInt(import.meta.env.VITE_ROOM_CODE_LENGTH ?? "", 10);
+  if (Number.isNaN(requested)) return DEFAULT_CODE_LENGTH;
+  return Math.min(MAX_CODE_LENGTH, Math.max(MIN_CODE_LENGTH, requested));
+};
+
+export const generateRoomCode = (length = getRoomCodeLength()): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  // 256 is a multiple of the alphabet size, so this is unbiased
+  return Array.from(bytes, b => ROOM_CODE_ALPHABET[b % ROOM_CODE_ALPHABET.length]).join("");
+};
+
+// Join the candidate room's channel and see whether anyone else is on it
+export const isRoomCodeTaken = async (
+  createTransport: TransportFactory,
+  code: string,
+  key: string,
+  checkMs = CODE_CHECK_MS
+): Promise<boolean> => {
+  const probe = createTransport(`room:${code}`, key);
+  let taken = false;
+  let settle: () => void = () => {};
+  const seenSomeone = new Promise<void>(resolve => {
+    settle = resolve;
+  });
+
+  probe.onPresence(members => {
+    if (members.some(m => m.key !== key)) {
+      taken = true;
+      settle();
+    }
+  });
+
+  try {
+    await probe.subscribe();
+    let timer: ReturnType<typeof setTimeout>;
+    await Promise.race([seenSomeone, new Promise<void>(resolve => { timer = setTimeout(resolve, checkMs); })]);
+    clearTimeout(timer);
+    return taken;
+  } finally {
+    await probe.close();
+  }
+};
+
+// A code nobody is using right now, or an error after a few unlucky draws
+export const allocateRoomCode = async (
+  createTransport: TransportFactory,
+  key: string,
+  { length = getRoomCodeLength(), checkMs = CODE_CHECK_MS } = {}
+): Promise<string> => {
+  for (let attempt = 0; attempt < CODE_ATTEMPTS; attempt++) {
+    const code = generateRoomCode(length);
+    if (!(await isRoomCodeTaken(createTransport, code, key, checkMs))) return code;
+  }
+  throw new Error("Could not find a free room code");
+};
@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { connectedCount, type GameState, type RoomStatus } from "@/lib/gameEngine";
+import type { PresenceMember } from "@/lib/transport";
+
+// Public rooms are found through one shared presence channel: each public
+// room's host is a member, and its presence meta describes the room.
+export const DIRECTORY_CHANNEL = "rooms:public";
+
+export interface RoomListing {
+  code: string;
+  host_name: string;
+  players: number;
+  max_players: number;
+  total_rounds: number;
+  draw_time: number;
+  status: RoomStatus;
+  current_round: number;
+  allow_late_join: boolean;
+  has_password: boolean;
+}
+
+// Listings come from other browsers, like every realtime payload
+const listingSchema = z.object({
+  code: z.string().min(1).max(16),
+  host_name: z.string().min(1).max(40),
+  players: z.number().int().min(0).max(50),
+  max_players: z.number().int().min(1).max(50),
+  total_rounds: z.number().int().min(1).max(20),
+  draw_time: z.number().int().min(5).max(600),
+  status: z.enum(['lobby', 'drawing', 'gallery', 'voting', 'results', 'finished']),
+  current_round: z.number().int().min(0).max(100),
+  allow_late_join: z.boolean(),
+  has_password: z.boolean(),
+});
+
+export const toListing = ({ room, players }: GameState): RoomListing => ({
+  code: room.code,
+  host_name: players.find(p => p.id === room.host_id)?.username ?? "?",
+  players: connectedCount(players),
+  max_players: room.max_players,
+  total_rounds: room.total_rounds,
+  draw_time: room.draw_time,
+  status: room.status,
+  current_round: room.current_round,
+  allow_late_join: room.allow_late_join,
+  has_password: room.has_password,
+});
+
+// Every valid listing on the channel, one per room, fullest rooms first
+export const listingsFrom = (members: PresenceMember[]): RoomListing[] => {
+  const byCode = new Map<string, RoomListing>();
+  members.forEach(member => {
+    const parsed = listingSchema.safeParse(member.meta);
+    if (parsed.success) byCode.set(parsed.data.code, parsed.data as RoomListing);
+  });
+  return [...byCode.values()].sort((a, b) => b.players - a.players || a.code.localeCompare(b.code));
+};
+
+// Whether a newcomer would be let in, as far as the listing can tell
+export const isJoinable = (listing: RoomListing): boolean =>
+  listing.players < listing.max_players &&
+  (listing.status === 'lobby' || listing.status === 'finished' || listing.allow_late_join);
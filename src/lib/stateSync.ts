@@ -0,0 +1,87 @@
+import type { Drawing, GameState, Player, Room, Vote } from "@/lib/gameEngine";
+
+// The host shares state as numbered batches of small patches. Guests apply
+// them in order and ask for a full snapshot when they notice a gap.
+
+export type StatePatch =
+  | { type: 'roomUpdated'; room: Room }
+  | { type: 'playerUpdated'; player: Player }
+  | { type: 'playerRemoved'; playerId: string }
+  | { type: 'drawingAdded'; drawing: Drawing }
+  | { type: 'drawingRemoved'; drawingId: string }
+  | { type: 'voteCast'; vote: Vote }
+  | { type: 'voteRemoved'; voterId: string; drawingId: string };
+
+export interface PatchMessage {
+  seq: number;
+  patches: StatePatch[];
+}
+
+export interface SnapshotMessage {
+  seq: number;
+  state: GameState;
+}
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const voteKey = (v: Vote) => `${v.voter_id}:${v.drawing_id}`;
+
+// Upserts/removals of keyed items, shared by players, drawings and votes
+const diffList = <T,>(
+  prev: T[],
+  next: T[],
+  key: (item: T) => string,
+  upsert: (item: T) => StatePatch,
+  remove: (item: T) => StatePatch,
+): StatePatch[] => {
+  const before = new Map(prev.map(item => [key(item), item]));
+  const after = new Set(next.map(key));
+
+  return [
+    ...prev.filter(item => !after.has(key(item))).map(remove),
+    ...next.filter(item => !same(before.get(key(item)), item)).map(upsert),
+  ];
+};
+
+export const diffState = (prev: GameState, next: GameState): StatePatch[] => [
+  ...(same(prev.room, next.room) ? [] : [{ type: 'roomUpdated', room: next.room } as StatePatch]),
+  ...diffList(prev.players, next.players, p => p.id,
+    player => ({ type: 'playerUpdated', player }),
+    player => ({ type: 'playerRemoved', playerId: player.id })),
+  ...diffList(prev.drawings, next.drawings, d => d.id,
+    drawing => ({ type: 'drawingAdded', drawing }),
+    drawing => ({ type: 'drawingRemoved', drawingId: drawing.id })),
+  ...diffList(prev.votes, next.votes, voteKey,
+    vote => ({ type: 'voteCast', vote }),
+    vote => ({ type: 'voteRemoved', voterId: vote.voter_id, drawingId: vote.drawing_id })),
+];
+
+const upsert = <T,>(list: T[], item: T, matches: (existing: T) => boolean): T[] =>
+  list.some(matches) ? list.map(existing => (matches(existing) ? item : existing)) : [...list, item];
+
+const applyPatch = (state: GameState, patch: StatePatch): GameState => {
+  switch (patch.type) {
+    case 'roomUpdated':
+      return { ...state, room: patch.room };
+    case 'playerUpdated':
+      return { ...state, players: upsert(state.players, patch.player, p => p.id === patch.player.id) };
+    case 'playerRemoved':
+      return { ...state, players: state.players.filter(p => p.id !== patch.playerId) };
+    case 'drawingAdded':
+      return { ...state, drawings: upsert(state.drawings, patch.drawing, d => d.id === patch.drawing.id) };
+    case 'drawingRemoved':
+      return { ...state, drawings: state.drawings.filter(d => d.id !== patch.drawingId) };
+    case 'voteCast':
+      return { ...state, votes: upsert(state.votes, patch.vote, v => voteKey(v) === voteKey(patch.vote)) };
+    case 'voteRemoved':
+      return {
+        ...state,
+        votes: state.votes.filter(v => !(v.voter_id === patch.voterId && v.drawing_id === patch.drawingId)),
+      };
+    default:
+      return state;
+  }
+};
+
+export const applyPatches = (state: GameState, patches: StatePatch[]): GameState =>
+  patches.reduce(applyPatch, state);
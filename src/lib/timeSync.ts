@@ -0,0 +1,21 @@
+// Players' clocks disagree, but phase deadlines are absolute timestamps set by
+// the host. Each guest estimates how far its clock is from the host's with a
+// few NTP-style round trips and reads the time through that offset.
+
+export interface TimeSample {
+  offset: number; // host clock minus ours, ms
+  rtt: number;
+}
+
+// How many round trips a guest makes when it joins
+export const TIME_SYNC_SAMPLES = 5;
+
+// Assumes the reply spent as long on the way back as the ping did going out
+export const measureSample = (sentAt: number, hostTime: number, receivedAt: number): TimeSample => ({
+  offset: Math.round(hostTime - (sentAt + receivedAt) / 2),
+  rtt: receivedAt - sentAt,
+});
+
+// The fastest round trip had the least room for asymmetric delay
+export const bestOffset = (samples: TimeSample[]): number =>
+  samples.length ? samples.reduce((best, s) => (s.rtt < best.rtt ? s : best)).offset : 0;
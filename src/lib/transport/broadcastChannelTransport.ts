@@ -0,0 +1,122 @@
+import type { EventHandler, PresenceHandler, PresenceMember, PresenceMeta, RoomTransport, TransportFactory } from "./types";
+
+// BroadcastChannel has no presence, so tabs announce themselves and heartbeat;
+// a member that stays silent for PRESENCE_TIMEOUT_MS is considered gone.
+const HEARTBEAT_MS = 2000;
+const PRESENCE_TIMEOUT_MS = 6000;
+
+type Message =
+  | { kind: 'event'; event: string; payload: unknown; sender: string }
+  | { kind: 'hello' | 'heartbeat'; member: PresenceMember }
+  | { kind: 'leave'; key: string };
+
+// Lets several tabs of the same browser play together without a backend
+export const broadcastChannelTransport: TransportFactory = (channelName, key) => {
+  const handlers = new Map<string, EventHandler[]>();
+  const presenceHandlers: PresenceHandler[] = [];
+  const members = new Map<string, { member: PresenceMember; seenAt: number }>();
+
+  let channel: BroadcastChannel | null = null;
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let me: PresenceMember | null = null;
+  let meta: PresenceMeta | undefined;
+
+  const presence = () => [...members.values()].map(entry => entry.member);
+  const notifyPresence = () => {
+    const current = presence();
+    presenceHandlers.forEach(handler => handler(current));
+  };
+
+  const post = (message: Message) => channel?.postMessage(message);
+
+  const see = (member: PresenceMember) => {
+    const known = members.get(member.key)?.member;
+    members.set(member.key, { member, seenAt: Date.now() });
+    if (!known || JSON.stringify(known.meta) !== JSON.stringify(member.meta)) notifyPresence();
+  };
+
+  const expireSilentMembers = () => {
+    const cutoff = Date.now() - PRESENCE_TIMEOUT_MS;
+    let changed = false;
+    members.forEach((entry, memberKey) => {
+      if (memberKey !== key && entry.seenAt < cutoff) {
+        members.delete(memberKey);
+        changed = true;
+      }
+    });
+    if (changed) notifyPresence();
+  };
+
+  const onMessage = ({ data }: MessageEvent<Message>) => {
+    switch (data.kind) {
+      case 'event':
+        handlers.get(data.event)?.forEach(handler => handler(data.payload, data.sender));
+        break;
+      case 'hello':
+        see(data.member);
+        // Introduce ourselves to the newcomer right away
+        if (me) post({ kind: 'heartbeat', member: me });
+        break;
+      case 'heartbeat':
+        see(data.member);
+        break;
+      case 'leave':
+        if (members.delete(data.key)) notifyPresence();
+        break;
+    }
+  };
+
+  const onPageHide = () => {
+    void transport.close();
+  };
+
+  const transport: RoomTransport = {
+    key,
+    on: (event, handler) => {
+      handlers.set(event, [...(handlers.get(event) ?? []), handler as EventHandler]);
+      return transport;
+    },
+    onPresence: (handler) => {
+      presenceHandlers.push(handler);
+      return transport;
+    },
+    subscribe: async () => {
+      channel = new BroadcastChannel(channelName);
+      channel.onmessage = onMessage;
+      me = { key, online_at: new Date().toISOString(), meta };
+      see(me);
+      post({ kind: 'hello', member: me });
+
+      heartbeat = setInterval(() => {
+        if (me) post({ kind: 'heartbeat', member: me });
+        expireSilentMembers();
+      }, HEARTBEAT_MS);
+      window.addEventListener('pagehide', onPageHide);
+    },
+    send: (event, payload) => {
+      post({ kind: 'event', event, payload, sender: key });
+    },
+    setMeta: async (next) => {
+      meta = next;
+      if (!me) return;
+      // Heartbeats carry it from now on; announce the change right away
+      me = { ...me, meta };
+      see(me);
+      post({ kind: 'heartbeat', member: me });
+    },
+    presence,
+    close: async () => {
+      if (!channel) return;
+      post({ kind: 'leave', key });
+      if (heartbeat) clearInterval(heartbeat);
+      window.removeEventListener('pagehide', onPageHide);
+      channel.close();
+      channel = null;
+      heartbeat = null;
+      me = null;
+      members.clear();
+    },
+  };
+
+  return transport;
+};
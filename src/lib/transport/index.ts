@@ -0,0 +1,28 @@
+import { isSupabaseConfigured } from "@/integrations/supabase/client";
+import { broadcastChannelTransport } from "./broadcastChannelTransport";
+import { memoryTransport } from "./memoryTransport";
+import { supabaseTransport } from "./supabaseTransport";
+import type { TransportFactory } from "./types";
+
+export type { EventHandler, PresenceHandler, PresenceMember, PresenceMeta, RoomTransport, TransportFactory } from "./types";
+export { sortMembers } from "./types";
+export { createMemoryBus } from "./memoryTransport";
+
+export type TransportKind = 'supabase' | 'broadcast' | 'memory';
+
+const FACTORIES: Record<TransportKind, TransportFactory> = {
+  supabase: supabaseTransport,
+  broadcast: broadcastChannelTransport,
+  memory: memoryTransport,
+};
+
+// VITE_REALTIME_TRANSPORT picks the backend; without it we use Supabase when
+// it is configured and fall back to cross-tab BroadcastChannel otherwise.
+export const getTransportKind = (): TransportKind => {
+  const requested = import.meta.env.VITE_REALTIME_TRANSPORT;
+  if (requested && requested in FACTORIES) return requested as TransportKind;
+  return isSupabaseConfigured ? 'supabase' : 'broadcast';
+};
+
+export const createRoomTransport: TransportFactory = (channelName, key) =>
+  FACTORIES[getTransportKind()](channelName, key);
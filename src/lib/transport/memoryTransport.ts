@@ -0,0 +1,83 @@
+import type { EventHandler, PresenceHandler, PresenceMember, PresenceMeta, RoomTransport, TransportFactory } from "./types";
+
+interface MemoryPeer {
+  member: PresenceMember;
+  deliver: (event: string, payload: unknown, sender: string) => void;
+  presenceChanged: (members: PresenceMember[]) => void;
+}
+
+// An in-process bus: every transport created from the same factory shares its
+// channels. Delivery is deferred to a microtask, like a real network hop.
+export const createMemoryBus = (): TransportFactory => {
+  const channels = new Map<string, Set<MemoryPeer>>();
+
+  const membersOf = (channelName: string) =>
+    [...(channels.get(channelName) ?? [])].map(peer => peer.member);
+
+  const notifyPresence = (channelName: string) => {
+    const members = membersOf(channelName);
+    channels.get(channelName)?.forEach(peer => queueMicrotask(() => peer.presenceChanged(members)));
+  };
+
+  return (channelName: string, key: string): RoomTransport => {
+    const handlers = new Map<string, EventHandler[]>();
+    const presenceHandlers: PresenceHandler[] = [];
+    let joined = false;
+    let meta: PresenceMeta | undefined;
+
+    const peer: MemoryPeer = {
+      member: { key, online_at: "" },
+      deliver: (event, payload, sender) => {
+        handlers.get(event)?.forEach(handler => handler(payload, sender));
+      },
+      presenceChanged: (members) => {
+        if (!joined) return;
+        presenceHandlers.forEach(handler => handler(members));
+      },
+    };
+
+    const transport: RoomTransport = {
+      key,
+      on: (event, handler) => {
+        handlers.set(event, [...(handlers.get(event) ?? []), handler as EventHandler]);
+        return transport;
+      },
+      onPresence: (handler) => {
+        presenceHandlers.push(handler);
+        return transport;
+      },
+      subscribe: async () => {
+        if (!channels.has(channelName)) channels.set(channelName, new Set());
+        peer.member = { key, online_at: new Date().toISOString(), meta };
+        channels.get(channelName)!.add(peer);
+        joined = true;
+        notifyPresence(channelName);
+      },
+      send: (event, payload) => {
+        if (!joined) return;
+        // Serialise like a real wire so receivers never share objects with the sender
+        const copy = JSON.parse(JSON.stringify(payload ?? null));
+        channels.get(channelName)?.forEach(other => {
+          if (other !== peer) queueMicrotask(() => other.deliver(event, copy, key));
+        });
+      },
+      setMeta: async (next) => {
+        meta = JSON.parse(JSON.stringify(next));
+        peer.member = { ...peer.member, meta };
+        if (joined) notifyPresence(channelName);
+      },
+      presence: () => (joined ? membersOf(channelName) : []),
+      close: async () => {
+        if (!joined) return;
+        joined = false;
+        channels.get(channelName)?.delete(peer);
+        notifyPresence(channelName);
+      },
+    };
+
+    return transport;
+  };
+};
+
+// Shared bus for VITE_REALTIME_TRANSPORT=memory (a single tab talking to itself)
+export const memoryTransport: TransportFactory = createMemoryBus();
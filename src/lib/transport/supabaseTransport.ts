@@ -0,0 +1,96 @@
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { getSupabase } from "@/integrations/supabase/client";
+import type { EventHandler, PresenceHandler, PresenceMember, PresenceMeta, RoomTransport, TransportFactory } from "./types";
+
+// Broadcast bodies carry the sender's presence key next to the data. Supabase
+// relays the body as is, so the key is whatever the sending client put there.
+interface Envelope {
+  sender: string;
+  data: unknown;
+}
+
+export const supabaseTransport: TransportFactory = (channelName, key) => {
+  const supabase = getSupabase();
+  const handlers = new Map<string, EventHandler[]>();
+  const presenceHandlers: PresenceHandler[] = [];
+  let channel: RealtimeChannel | null = null;
+  let onlineAt = "";
+  let meta: PresenceMeta | undefined;
+  let tracked = false;
+
+  const presence = (): PresenceMember[] => {
+    if (!channel) return [];
+    const state = channel.presenceState<{ online_at: string; meta?: PresenceMeta }>();
+    return Object.entries(state).map(([memberKey, metas]) => {
+      // A key may be tracked from several sockets; the earliest one counts
+      const earliest = [...metas].sort((a, b) => a.online_at.localeCompare(b.online_at))[0];
+      return { key: memberKey, online_at: earliest?.online_at ?? "", meta: earliest?.meta };
+    });
+  };
+
+  const transport: RoomTransport = {
+    key,
+    on: (event, handler) => {
+      handlers.set(event, [...(handlers.get(event) ?? []), handler as EventHandler]);
+      return transport;
+    },
+    onPresence: (handler) => {
+      presenceHandlers.push(handler);
+      return transport;
+    },
+    subscribe: () => new Promise<void>((resolve, reject) => {
+      const current = supabase.channel(channelName, {
+        config: {
+          presence: { key },
+          broadcast: { self: false }
+        }
+      });
+      channel = current;
+
+      handlers.forEach((list, event) => {
+        current.on('broadcast', { event }, ({ payload }) => {
+          const { sender, data } = payload as Envelope;
+          list.forEach(handler => handler(data, sender));
+        });
+      });
+
+      current
+        .on('presence', { event: 'sync' }, () => {
+          const members = presence();
+          presenceHandlers.forEach(handler => handler(members));
+        })
+        .subscribe(async (status, err) => {
+          if (status === 'SUBSCRIBED') {
+            onlineAt = new Date().toISOString();
+            await current.track({ online_at: onlineAt, meta });
+            tracked = true;
+            resolve();
+          } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+            reject(err ?? new Error(`Realtime channel ${status.toLowerCase()}`));
+          }
+        });
+    }),
+    send: (event, payload) => {
+      channel?.send({
+        type: 'broadcast',
+        event,
+        payload: { sender: key, data: payload } satisfies Envelope
+      });
+    },
+    setMeta: async (next) => {
+      meta = next;
+      // Tracking again replaces what we shared
+      if (channel && tracked) await channel.track({ online_at: onlineAt, meta });
+    },
+    presence,
+    close: async () => {
+      if (!channel) return;
+      const current = channel;
+      channel = null;
+      tracked = false;
+      await supabase.removeChannel(current);
+    },
+  };
+
+  return transport;
+};
@@ -0,0 +1,38 @@
+// Anything a member shares about itself through presence; see setMeta
+export type PresenceMeta = Record<string, unknown>;
+
+export interface PresenceMember {
+  key: string;
+  online_at: string; // ISO, when this member connected
+  meta?: PresenceMeta;
+}
+
+export type EventHandler<T = unknown> = (payload: T, sender: string) => void;
+export type PresenceHandler = (members: PresenceMember[]) => void;
+
+// The subset of a realtime channel the game needs. Implementations never echo
+// a client's own events back to it.
+export interface RoomTransport {
+  // Presence key of this client, stamped on everything it sends. Receivers
+  // get it as the sender, as claimed: no backend here verifies it.
+  readonly key: string;
+  // Register handlers before subscribing; not every backend accepts them later
+  on<T = unknown>(event: string, handler: EventHandler<T>): RoomTransport;
+  onPresence(handler: PresenceHandler): RoomTransport;
+  // Resolves once joined and tracked in presence
+  subscribe(): Promise<void>;
+  send(event: string, payload: unknown): void;
+  // Replace what we share in presence; may be called before subscribing
+  setMeta(meta: PresenceMeta): Promise<void>;
+  presence(): PresenceMember[];
+  close(): Promise<void>;
+}
+
+export type TransportFactory = (channelName: string, key: string) => RoomTransport;
+
+
+// Oldest connection first; ties broken by key so every client agrees
+export const sortMembers = (members: PresenceMember[]): PresenceMember[] =>
+  [...members].sort((a, b) =>
+    a.online_at === b.online_at ? a.key.localeCompare(b.key) : a.online_at.localeCompare(b.online_at)
+  );
@@ -1,11 +1,10 @@
 import { useEffect, useRef, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { Canvas as FabricCanvas, PencilBrush } from "fabric";
 import { motion } from "framer-motion";
 import {
-  Pencil,
-  Eraser,
   Undo,
+  Redo,
+  Droplet,
   Trash2,
   Trophy,
   AlertCircle,
@@ -14,14 +13,22 @@ import {
   MessageSquare,
   Vote as VoteIcon
 } from "lucide-react";
+import { DrawingCanvas, type DrawingCanvasHandle } from "@/components/canvas/DrawingCanvas";
+import { BrushControls } from "@/components/canvas/BrushControls";
+import { availableTools } from "@/components/canvas/tools";
 import { SketchButton } from "@/components/game/SketchButton";
 import { SketchCard, SketchCardContent } from "@/components/game/SketchCard";
 import { PlayerAvatar } from "@/components/game/PlayerAvatar";
+import { PlayerMenu } from "@/components/game/PlayerMenu";
 import { Timer } from "@/components/game/Timer";
+import { DrawingImage } from "@/components/game/DrawingImage";
 import { useRoom } from "@/hooks/useRoom";
+import { everyoneHasActed } from "@/lib/gameEngine";
+import { useGameStore, type BrushSettings } from "@/lib/gameStore";
 import { cn } from "@/lib/utils";
 
-const COLORS = ["#1a1a2e", "#FF6B6B", "#4ECDC4", "#FFE66D", "#95E1D3", "#F38181", "#AA96DA", "#FF9F43", "#6C5CE7"];
+// Hand the canvas in this long before the timer runs out, leaving time for the upload
+const AUTO_SUBMIT_LEAD_MS = 1500;
 
 const Game = () => {
   const { code } = useParams<{ code: string }>();
@@ -32,20 +39,20 @@ const Game = () => {
     drawings,
     votes: allVotes,
     playerId,
+    now,
     submitDrawing,
     castVote,
     rejoinRoom,
+    removal,
     roomLoadingState,
     error,
     startGame, // For host "Play Again"
   } = useRoom();
 
   // Canvas State
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const canvasContainerRef = useRef<HTMLDivElement>(null);
-  const [fabricCanvas, setFabricCanvas] = useState<FabricCanvas | null>(null);
-  const [activeColor, setActiveColor] = useState(COLORS[0]);
-  const [tool, setTool] = useState<"pen" | "eraser">("pen");
+  const canvasRef = useRef<DrawingCanvasHandle>(null);
+  const { brush, setBrush, rememberColor } = useGameStore();
+  const [tool, setTool] = useState("pen");
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Computed State
@@ -53,13 +60,20 @@ const Game = () => {
   const hasSubmitted = drawings.some(d => d.player_id === playerId && d.round === room?.current_round);
   const myVote = allVotes.find(v => v.voter_id === playerId);
   const isHost = room?.host_id === playerId;
+  const tools = availableTools(!!room?.freehand_only);
+  const activeTool = tools.some(t => t.id === tool) ? tool : "pen";
 
-  // Rejoin room logic
+  // Opened directly or reloaded: reconnect (navigation keeps the shared connection)
   useEffect(() => {
-    if (code && roomLoadingState === 'idle' && !room) {
+    if (code && roomLoadingState === 'idle' && !room && !removal) {
       rejoinRoom(code);
     }
-  }, [code, roomLoadingState, room, rejoinRoom]);
+  }, [code, roomLoadingState, room, removal, rejoinRoom]);
+
+  // Kicked or banned by the host: back to the start, where we say why
+  useEffect(() => {
+    if (removal) navigate("/");
+  }, [removal, navigate]);
 
   // Redirect if game finished
   useEffect(() => {
@@ -68,81 +82,42 @@ const Game = () => {
     }
   }, [room?.status]);
 
-  // --- Canvas Logic ---
-  useEffect(() => {
-    if (!canvasRef.current || room?.status !== 'drawing' || hasSubmitted) return;
-    if (fabricCanvas) return;
-
-    const timer = setTimeout(() => {
-      if (!canvasRef.current) return;
-      try {
-        const canvas = new FabricCanvas(canvasRef.current, {
-          width: 580, // slightly smaller to fit card
-          height: 420,
-          backgroundColor: "#ffffff",
-          isDrawingMode: true,
-          selection: false,
-        });
-
-        const brush = new PencilBrush(canvas);
-        brush.color = activeColor;
-        brush.width = 4;
-        canvas.freeDrawingBrush = brush;
-
-        setFabricCanvas(canvas);
-      } catch (err) {
-        console.error("Canvas init error:", err);
-      }
-    }, 100);
-
-    return () => clearTimeout(timer);
-  }, [room?.status, hasSubmitted]);
-
-  useEffect(() => {
-    if (fabricCanvas && fabricCanvas.freeDrawingBrush) {
-      fabricCanvas.freeDrawingBrush.color = tool === "eraser" ? "#ffffff" : activeColor;
-      fabricCanvas.freeDrawingBrush.width = tool === "eraser" ? 20 : 4;
-    }
-  }, [tool, activeColor, fabricCanvas]);
-
-  // Clean up canvas when phase changes or unmount
-  useEffect(() => {
-    if (room?.status !== 'drawing' && fabricCanvas) {
-      fabricCanvas.dispose();
-      setFabricCanvas(null);
-    }
-  }, [room?.status]);
-
-
   // --- Actions ---
-  const handleClear = () => {
-    if (fabricCanvas) {
-      fabricCanvas.clear();
-      fabricCanvas.backgroundColor = "#ffffff";
-      fabricCanvas.renderAll();
-    }
-  };
-
-  const handleUndo = () => {
-    if (fabricCanvas) {
-      const objects = fabricCanvas.getObjects();
-      if (objects.length > 0) fabricCanvas.remove(objects[objects.length - 1]);
-    }
+  // Choosing a colour means you want to draw with it
+  const handleBrushChange = (changes: Partial<BrushSettings>) => {
+    setBrush(changes);
+    if (changes.color) setTool("pen");
   };
 
   const handleSubmit = async () => {
-    if (!fabricCanvas || hasSubmitted) return;
+    const dataUrl = canvasRef.current?.getImage();
+    if (!dataUrl || hasSubmitted) return;
     setIsSubmitting(true);
     try {
-      // Export original quality
-      const dataUrl = fabricCanvas.toDataURL({ format: "png", quality: 0.8, multiplier: 1 });
       await submitDrawing(dataUrl);
-      fabricCanvas.isDrawingMode = false;
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  // Whatever is on the canvas when time runs out counts, even without a click
+  // (once per round, so a failed upload doesn't retry in a loop)
+  const submitRef = useRef(handleSubmit);
+  submitRef.current = handleSubmit;
+  const autoSubmittedRoundRef = useRef(0);
+  useEffect(() => {
+    if (room?.status !== 'drawing' || !room.phase_end_at || hasSubmitted || isSubmitting) return;
+    if (autoSubmittedRoundRef.current === room.current_round) return;
+
+    const round = room.current_round;
+    const delay = new Date(room.phase_end_at).getTime() - AUTO_SUBMIT_LEAD_MS - now();
+    const timer = setTimeout(() => {
+      autoSubmittedRoundRef.current = round;
+      submitRef.current();
+    }, Math.max(0, delay));
+    return () => clearTimeout(timer);
+  }, [room?.status, room?.phase_end_at, room?.current_round, hasSubmitted, isSubmitting, now]);
+
 
   // --- Render Helpers ---
 
@@ -177,37 +152,56 @@ const Game = () => {
               </h2>
             </div>
 
-            <Timer endTime={room.phase_end_at || undefined} onComplete={() => { }} />
+            <Timer endTime={room.phase_end_at || undefined} onComplete={() => { }} now={now} />
           </div>
 
+          {room.advance_grace !== null && everyoneHasActed({ room, players, drawings, votes: allVotes }) && (
+            <p className="text-center font-display text-muted-foreground animate-pulse">
+              Everyone's done - moving on!
+            </p>
+          )}
+
           {/* CANVAS AREA (DRAWING) */}
           {room.status === "drawing" && (
             <SketchCard className="w-full relative">
               <SketchCardContent className="p-4">
                 {/* Toolbar */}
                 <div className="flex flex-wrap items-center gap-4 mb-4 justify-between bg-secondary/30 p-2 rounded-lg">
-                  <div className="flex gap-1 flex-wrap">
-                    {COLORS.map(c => (
-                      <button key={c} onClick={() => { setActiveColor(c); setTool("pen"); }}
-                        className={cn("w-8 h-8 rounded-full border-2 border-white shadow-sm hover:scale-110 transition", activeColor === c && tool === "pen" && "ring-2 ring-primary scale-110")}
-                        style={{ backgroundColor: c }}
-                        disabled={hasSubmitted} />
+                  <div className="flex gap-1 flex-wrap items-center">
+                    <BrushControls brush={brush} showSelection={activeTool === "pen"} disabled={hasSubmitted} onChange={handleBrushChange} />
+                    {tools.filter(t => t.id !== "pen").map(({ id, label, icon: Icon }) => (
+                      <button key={id} onClick={() => setTool(id)} title={label} disabled={hasSubmitted}
+                        className={cn("w-8 h-8 rounded-full bg-white border-2 border-gray-300 flex items-center justify-center hover:scale-110", activeTool === id && "ring-2 ring-primary")}>
+                        <Icon className="w-4 h-4" />
+                      </button>
                     ))}
-                    <button onClick={() => { setActiveColor("#ffffff"); setTool("eraser"); }} className={cn("w-8 h-8 rounded-full bg-white border-2 border-gray-300 flex items-center justify-center hover:scale-110", tool === "eraser" && "ring-2 ring-primary")}>
-                      <Eraser className="w-4 h-4" />
-                    </button>
+                    {tools.some(t => t.shape) && (
+                      <button onClick={() => setBrush({ fillShapes: !brush.fillShapes })} title="Fill shapes" disabled={hasSubmitted}
+                        className={cn("w-8 h-8 rounded-full bg-white border-2 border-gray-300 flex items-center justify-center hover:scale-110", brush.fillShapes && "ring-2 ring-primary")}>
+                        <Droplet className="w-4 h-4" fill={brush.fillShapes ? "currentColor" : "none"} />
+                      </button>
+                    )}
                   </div>
 
                   <div className="flex gap-2">
-                    <SketchButton size="icon" variant="outline" onClick={handleUndo} disabled={hasSubmitted}><Undo className="w-4 h-4" /></SketchButton>
-                    <SketchButton size="icon" variant="destructive" onClick={handleClear} disabled={hasSubmitted}><Trash2 className="w-4 h-4" /></SketchButton>
+                    <SketchButton size="icon" variant="outline" onClick={() => canvasRef.current?.undo()} disabled={hasSubmitted}><Undo className="w-4 h-4" /></SketchButton>
+                    <SketchButton size="icon" variant="outline" onClick={() => canvasRef.current?.redo()} disabled={hasSubmitted}><Redo className="w-4 h-4" /></SketchButton>
+                    <SketchButton size="icon" variant="destructive" onClick={() => canvasRef.current?.clear()} disabled={hasSubmitted}><Trash2 className="w-4 h-4" /></SketchButton>
                   </div>
                 </div>
 
-                {/* Canvas Container */}
-                <div ref={canvasContainerRef} className="relative mx-auto bg-white border-4 border-foreground rounded-xl shadow-inner overflow-hidden max-w-[600px] aspect-[4/3]">
-                  <canvas ref={canvasRef} className="block cursor-crosshair touch-none w-full h-full" />
-
+                <DrawingCanvas
+                  ref={canvasRef}
+                  className="max-w-[600px]"
+                  tool={activeTool}
+                  color={brush.color}
+                  brushWidth={brush.width}
+                  opacity={brush.opacity}
+                  filled={brush.fillShapes}
+                  disabled={hasSubmitted}
+                  onChange={() => activeTool === "pen" && rememberColor(brush.color)}
+                  onPickColor={color => handleBrushChange({ color })}
+                >
                   {hasSubmitted && (
                     <div className="absolute inset-0 bg-background/80 flex flex-col items-center justify-center backdrop-blur-sm z-10 p-6 text-center">
                       <Check className="w-16 h-16 text-green-500 mb-4" />
@@ -215,7 +209,7 @@ const Game = () => {
                       <p className="text-muted-foreground">Waiting for other artists...</p>
                     </div>
                   )}
-                </div>
+                </DrawingCanvas>
 
                 {!hasSubmitted && (
                   <div className="mt-4 flex justify-center">
@@ -243,7 +237,7 @@ const Game = () => {
                   >
                     <div className="bg-white rounded-lg overflow-hidden aspect-[4/3] relative">
                       <div className="absolute inset-0 flex items-center justify-center text-muted-foreground/20 font-bold text-4xl select-none">?</div>
-                      <img src={d.image_data} alt="Drawing" className="w-full h-full object-contain relative z-10" />
+                      <DrawingImage imageRef={d.image_ref} className="w-full h-full object-contain relative z-10" />
                     </div>
                   </motion.div>
                 ))}
@@ -280,7 +274,7 @@ const Game = () => {
                         onClick={() => !isMine && castVote(d.id)}
                       >
                         <div className="aspect-[4/3] bg-white p-2">
-                          <img src={d.image_data} alt="Drawing" className="w-full h-full object-contain" />
+                          <DrawingImage imageRef={d.image_ref} className="w-full h-full object-contain" />
                         </div>
 
                         {/* Overlay for Mine */}
@@ -329,7 +323,7 @@ const Game = () => {
                     <Trophy className="w-16 h-16 text-yellow-500 mb-4 animate-bounce" />
 
                     <div className="relative w-full max-w-md aspect-[4/3] bg-white rounded-xl border-2 border-foreground shadow-inner mb-6 rotate-1">
-                      <img src={winner.image_data} className="w-full h-full object-contain" />
+                      <DrawingImage imageRef={winner.image_ref} alt="Winning drawing" className="w-full h-full object-contain" />
                       <div className="absolute -bottom-4 -right-4 bg-yellow-400 text-black font-bold px-4 py-2 rounded-full border-2 border-black transform rotate-[-5deg] shadow-sm">
                         {winnerVotes} Votes!
                       </div>
@@ -377,11 +371,12 @@ const Game = () => {
             <h3 className="font-display font-bold text-lg mb-3 flex items-center gap-2"><Trophy className="w-4 h-4 text-yellow-500" /> Leaderboard</h3>
             <div className="space-y-2 max-h-[300px] overflow-y-auto">
               {players.sort((a, b) => b.score - a.score).map((p, i) => (
-                <div key={p.id} className={cn("flex items-center gap-2 p-2 rounded-lg", p.id === playerId ? "bg-primary/10 border border-primary/20" : "bg-muted/50")}>
+                <div key={p.id} className={cn("flex items-center gap-2 p-2 rounded-lg", p.id === playerId ? "bg-primary/10 border border-primary/20" : "bg-muted/50", !p.is_connected && "opacity-50")}>
                   <span className="text-xs font-bold text-muted-foreground w-4">{i + 1}</span>
                   <div className="w-2 h-2 rounded-full" style={{ background: p.avatar_color }} />
                   <span className="text-sm font-medium truncate flex-1">{p.username}</span>
                   <span className="text-xs font-mono">{p.score}</span>
+                  <PlayerMenu player={p} />
                 </div>
               ))}
             </div>
@@ -1,44 +1,73 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import { motion } from "framer-motion";
-import { Pencil, Users, Sparkles } from "lucide-react";
+import { Pencil, Users, Sparkles, Globe } from "lucide-react";
 import { SketchButton } from "@/components/game/SketchButton";
 import { SketchCard, SketchCardContent } from "@/components/game/SketchCard";
 import { Input } from "@/components/ui/input";
-import { useRoom } from "@/hooks/useRoom";
+import { JOIN_FAILURE_MESSAGES, useRoom } from "@/hooks/useRoom";
 import { useToast } from "@/hooks/use-toast";
+import { useGameStore } from "@/lib/gameStore";
+import { MAX_USERNAME_LENGTH } from "@/lib/gameEngine";
+import { authorizeHost, getHostAuthKind } from "@/lib/roomAuth";
+import { MAX_CODE_LENGTH } from "@/lib/roomCodes";
+
+const hostAuth = getHostAuthKind();
 
 const Index = () => {
   const navigate = useNavigate();
+  // Opened from an invite link (/join/:code): only a name is needed
+  const { code: inviteCode } = useParams<{ code: string }>();
   const { toast } = useToast();
-  const { createRoom, joinRoom, loading } = useRoom();
+  const { createRoom, joinRoom, loading, removal, dismissRemoval } = useRoom();
 
-  const [username, setUsername] = useState("");
-  const [roomCode, setRoomCode] = useState("");
+  const storedName = useGameStore(s => s.username);
+  const [username, setUsername] = useState(storedName ?? "");
+  const [roomCode, setRoomCode] = useState(inviteCode?.toUpperCase() ?? "");
   const [secretKey, setSecretKey] = useState("");
+  const [roomPassword, setRoomPassword] = useState("");
+  const [authorizing, setAuthorizing] = useState(false);
 
   // Modes: 'name' -> 'selection' -> 'create' | 'join'
   const [mode, setMode] = useState<"name" | "selection" | "create" | "join">("name");
 
+  // Sent here after being kicked or banned
+  useEffect(() => {
+    if (!removal) return;
+    toast({
+      variant: "destructive",
+      title: removal.banned ? "You were banned" : "You were kicked",
+      description: `The host removed you from room ${removal.code}.`,
+    });
+    dismissRemoval();
+  }, [removal, dismissRemoval, toast]);
+
   const handleNameSubmit = () => {
     if (!username.trim()) {
       toast({ variant: "destructive", title: "Enter your name!" });
       return;
     }
+    if (inviteCode) {
+      handleJoin();
+      return;
+    }
     setMode("selection");
   };
 
   const handleCreate = async () => {
-    if (secretKey !== "impressMe") {
-      toast({ variant: "destructive", title: "Invalid Secret Key!", description: "You are not authorized to create a room." });
-      return;
-    }
-
+    setAuthorizing(true);
     try {
-      const code = await createRoom(username.trim());
+      if (!(await authorizeHost(secretKey))) {
+        toast({ variant: "destructive", title: "Invalid Secret Key!", description: "You are not authorized to create a room." });
+        return;
+      }
+      const code = await createRoom(username.trim(), { password: roomPassword });
       navigate(`/lobby/${code}`);
     } catch (err) {
       console.error(err);
+      toast({ variant: "destructive", title: "Couldn't create a room", description: "Please try again." });
+    } finally {
+      setAuthorizing(false);
     }
   };
 
@@ -48,7 +77,13 @@ const Index = () => {
       return;
     }
     try {
-      await joinRoom(roomCode.trim().toUpperCase(), username.trim());
+      const failure = await joinRoom(roomCode.trim().toUpperCase(), username.trim(), roomPassword);
+      if (failure) {
+        toast({ variant: "destructive", title: "Can't join this room", description: JOIN_FAILURE_MESSAGES[failure] });
+        // Invite links skip the join form; bring it up to ask for the password
+        if (failure === "wrong_password") setMode("join");
+        return;
+      }
       navigate(`/lobby/${roomCode.trim().toUpperCase()}`);
     } catch (err) {
       console.error(err);
@@ -102,7 +137,9 @@ const Index = () => {
             {/* STEP 1: NAME INPUT */}
             {mode === "name" && (
               <div className="space-y-4">
-                <h2 className="text-2xl font-handwritten text-center">Who are you?</h2>
+                <h2 className="text-2xl font-handwritten text-center">
+                  {inviteCode ? `Joining room ${roomCode}` : "Who are you?"}
+                </h2>
                 <div>
                   <label className="block text-sm font-display mb-2">Your Name</label>
                   <Input
@@ -110,7 +147,7 @@ const Index = () => {
                     value={username}
                     onChange={(e) => setUsername(e.target.value)}
                     className="h-12 text-lg border-2 border-foreground rounded-xl"
-                    maxLength={20}
+                    maxLength={MAX_USERNAME_LENGTH}
                     onKeyDown={(e) => e.key === "Enter" && handleNameSubmit()}
                   />
                 </div>
@@ -119,9 +156,9 @@ const Index = () => {
                   size="lg"
                   onClick={handleNameSubmit}
                   className="w-full"
-                  disabled={!username.trim()}
+                  disabled={!username.trim() || loading}
                 >
-                  Continue
+                  {inviteCode ? (loading ? "Joining..." : "Join Game") : "Continue"}
                 </SketchButton>
               </div>
             )}
@@ -144,6 +181,15 @@ const Index = () => {
                     <Users className="w-5 h-5" />
                     Join Existing Room
                   </SketchButton>
+                  <SketchButton
+                    variant="outline"
+                    size="lg"
+                    onClick={() => navigate("/rooms")}
+                    className="w-full"
+                  >
+                    <Globe className="w-5 h-5" />
+                    Browse Public Rooms
+                  </SketchButton>
                   <SketchButton
                     variant="secondary"
                     size="lg"
@@ -168,14 +214,27 @@ const Index = () => {
             {/* STEP 3A: CREATE ROOM (PROTECTED) */}
             {mode === "create" && (
               <div className="space-y-4">
-                <h2 className="text-2xl font-handwritten text-center">Host Only</h2>
+                <h2 className="text-2xl font-handwritten text-center">{hostAuth === "open" ? "New Room" : "Host Only"}</h2>
+                {hostAuth !== "open" && (
+                  <div>
+                    <label className="block text-sm font-display mb-2">Secret Key</label>
+                    <Input
+                      type="password"
+                      placeholder="Enter admin password..."
+                      value={secretKey}
+                      onChange={(e) => setSecretKey(e.target.value)}
+                      className="h-12 text-lg border-2 border-foreground rounded-xl"
+                      onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                    />
+                  </div>
+                )}
                 <div>
-                  <label className="block text-sm font-display mb-2">Secret Key</label>
+                  <label className="block text-sm font-display mb-2">Room Password (optional)</label>
                   <Input
                     type="password"
-                    placeholder="Enter admin password..."
-                    value={secretKey}
-                    onChange={(e) => setSecretKey(e.target.value)}
+                    placeholder="Leave empty for an open room"
+                    value={roomPassword}
+                    onChange={(e) => setRoomPassword(e.target.value)}
                     className="h-12 text-lg border-2 border-foreground rounded-xl"
                     onKeyDown={(e) => e.key === "Enter" && handleCreate()}
                   />
@@ -184,11 +243,11 @@ const Index = () => {
                   variant="success"
                   size="xl"
                   onClick={handleCreate}
-                  disabled={loading || !secretKey.trim()}
+                  disabled={loading || authorizing || (hostAuth === "password" && !secretKey.trim())}
                   className="w-full"
                 >
                   <Sparkles className="w-6 h-6" />
-                  {loading ? "Creating..." : "Verify & Create"}
+                  {loading || authorizing ? "Creating..." : hostAuth === "open" ? "Create Room" : "Verify & Create"}
                 </SketchButton>
                 <SketchButton
                   variant="ghost"
@@ -211,7 +270,17 @@ const Index = () => {
                     value={roomCode}
                     onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
                     className="h-12 text-2xl text-center tracking-widest font-mono border-2 border-foreground rounded-xl uppercase"
-                    maxLength={5}
+                    maxLength={MAX_CODE_LENGTH}
+                    onKeyDown={(e) => e.key === "Enter" && handleJoin()}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-display mb-2">Room Password (if it has one)</label>
+                  <Input
+                    type="password"
+                    value={roomPassword}
+                    onChange={(e) => setRoomPassword(e.target.value)}
+                    className="h-12 text-lg border-2 border-foreground rounded-xl"
                     onKeyDown={(e) => e.key === "Enter" && handleJoin()}
                   />
                 </div>
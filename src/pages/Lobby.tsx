@@ -1,11 +1,15 @@
 import { useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { motion } from "framer-motion";
-import { Copy, Play, LogOut, Settings, Loader2, AlertCircle } from "lucide-react";
+import { QRCodeSVG } from "qrcode.react";
+import { Copy, Play, LogOut, Settings, Loader2, AlertCircle, Check, Lock, Link as LinkIcon } from "lucide-react";
 import { SketchButton } from "@/components/game/SketchButton";
 import { SketchCard, SketchCardContent, SketchCardHeader, SketchCardTitle } from "@/components/game/SketchCard";
 import { PlayerAvatar } from "@/components/game/PlayerAvatar";
+import { PlayerMenu } from "@/components/game/PlayerMenu";
+import { Timer } from "@/components/game/Timer";
 import { useRoom } from "@/hooks/useRoom";
+import { allReady } from "@/lib/gameEngine";
 import { useToast } from "@/hooks/use-toast";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
@@ -17,36 +21,54 @@ const Lobby = () => {
     room,
     players,
     playerId,
+    now,
     leaveRoom,
+    toggleReady,
     updateSettings,
     startGame,
     rejoinRoom,
+    removal,
     roomLoadingState,
     error
   } = useRoom();
 
   const isHost = room?.host_id === playerId;
-  // const allReady = players.length > 1 && players.every(p => p.is_host || p.is_ready);
+  const me = players.find(p => p.id === playerId);
+  const everyoneReady = allReady(players);
+  const canStart = players.length >= 2 && (!room?.require_ready || everyoneReady);
 
-  // Initial Join Check
+  // Opened directly or reloaded: reconnect (navigation keeps the shared connection)
   useEffect(() => {
-    if (code && roomLoadingState === 'idle' && !room) {
+    if (code && roomLoadingState === 'idle' && !room && !removal) {
       rejoinRoom(code);
     }
-  }, [code, roomLoadingState, room, rejoinRoom]);
+  }, [code, roomLoadingState, room, removal, rejoinRoom]);
 
-  // Navigate to game when it starts
+  // Kicked or banned by the host: back to the start, where we say why
   useEffect(() => {
-    if (room?.status === "drawing") {
+    if (removal) navigate("/");
+  }, [removal, navigate]);
+
+  // Navigate to game when it starts, or straight away for late joiners who
+  // come in during any other phase
+  useEffect(() => {
+    if (room?.status && room.status !== "lobby") {
       navigate(`/game/${code}`);
     }
   }, [room?.status, code, navigate]);
 
+  const inviteLink = `${window.location.origin}/join/${code}`;
+
   const copyCode = () => {
     navigator.clipboard.writeText(code || "");
     toast({ title: "Copied!", description: "Room code copied to clipboard" });
   };
 
+  const copyInviteLink = () => {
+    navigator.clipboard.writeText(inviteLink);
+    toast({ title: "Copied!", description: "Invite link copied to clipboard" });
+  };
+
   const handleLeave = async () => {
     await leaveRoom();
     navigate("/");
@@ -114,6 +136,7 @@ const Lobby = () => {
           >
             <span className="text-sm text-muted-foreground">Room Code:</span>
             <div className="flex items-center gap-2 bg-accent px-4 py-2 rounded-xl border-2 border-foreground">
+              {room.has_password && <Lock className="w-4 h-4" aria-label="Password protected" />}
               <span className="text-2xl font-mono font-bold tracking-widest">{code}</span>
               <Copy className="w-5 h-5" />
             </div>
@@ -132,6 +155,7 @@ const Lobby = () => {
                   {players.map((player, i) => (
                     <motion.div
                       key={player.id}
+                      className="relative"
                       initial={{ scale: 0, opacity: 0 }}
                       animate={{ scale: 1, opacity: 1 }}
                       transition={{ delay: i * 0.1 }}
@@ -141,22 +165,55 @@ const Lobby = () => {
                         color={player.avatar_color}
                         isHost={player.is_host}
                         isReady={player.is_ready}
-                        isConnected={true} // Realtime implies connected if in list
+                        isConnected={player.is_connected}
                         size="lg"
                       />
+                      <PlayerMenu player={player} className="absolute top-0 right-0" />
                     </motion.div>
                   ))}
                 </div>
 
-                <div className="mt-6 text-center text-sm text-muted-foreground">
-                  {isHost ? "You are the host. Configure settings and start!" : "Waiting for host to start..."}
-                </div>
+                {room.status === "lobby" && room.phase_end_at ? (
+                  <div className="mt-6 flex flex-col items-center gap-2">
+                    <span className="font-display">Everyone's ready! Starting in</span>
+                    <Timer endTime={room.phase_end_at} size="sm" now={now} />
+                  </div>
+                ) : (
+                  <div className="mt-6 text-center text-sm text-muted-foreground">
+                    {isHost ? "You are the host. Configure settings and start!" : "Waiting for host to start..."}
+                  </div>
+                )}
+
+                {!isHost && me && (
+                  <div className="mt-4 flex justify-center">
+                    <SketchButton variant={me.is_ready ? "success" : "outline"} onClick={toggleReady}>
+                      <Check className="w-5 h-5" />
+                      {me.is_ready ? "Ready!" : "I'm Ready"}
+                    </SketchButton>
+                  </div>
+                )}
               </SketchCardContent>
             </SketchCard>
           </div>
 
           {/* Settings */}
-          <div>
+          <div className="space-y-6">
+            {/* Invite: scan the host's screen, or share the link */}
+            <SketchCard>
+              <SketchCardHeader>
+                <SketchCardTitle>Invite Friends</SketchCardTitle>
+              </SketchCardHeader>
+              <SketchCardContent className="flex flex-col items-center gap-4">
+                <div className="bg-white p-3 rounded-xl border-2 border-foreground">
+                  <QRCodeSVG value={inviteLink} size={160} aria-label={`QR code to join room ${code}`} />
+                </div>
+                <SketchButton variant="outline" size="sm" onClick={copyInviteLink} className="w-full">
+                  <LinkIcon className="w-4 h-4" />
+                  Copy Invite Link
+                </SketchButton>
+              </SketchCardContent>
+            </SketchCard>
+
             <SketchCard variant="secondary">
               <SketchCardHeader>
                 <SketchCardTitle className="flex items-center gap-2">
@@ -201,12 +258,99 @@ const Lobby = () => {
                   </Select>
                 </div>
 
+                <div>
+                  <label className="text-sm font-display mb-1 block">When Everyone's Done</label>
+                  <Select
+                    value={room.advance_grace === null ? "off" : room.advance_grace.toString()}
+                    onValueChange={(v) => isHost && updateSettings({ advance_grace: v === "off" ? null : parseInt(v) })}
+                    disabled={!isHost}
+                  >
+                    <SelectTrigger className="border-2 border-foreground">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[0, 3, 5, 10].map(n => (
+                        <SelectItem key={n} value={n.toString()}>{n ? `Skip ahead after ${n}s` : "Skip ahead now"}</SelectItem>
+                      ))}
+                      <SelectItem value="off">Wait for the timer</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="text-sm font-display mb-1 block">Start</label>
+                  <Select
+                    value={room.require_ready ? "ready" : "host"}
+                    onValueChange={(v) => isHost && updateSettings({ require_ready: v === "ready" })}
+                    disabled={!isHost}
+                  >
+                    <SelectTrigger className="border-2 border-foreground">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="host">When the host says so</SelectItem>
+                      <SelectItem value="ready">Once everyone's ready</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="text-sm font-display mb-1 block">Visibility</label>
+                  <Select
+                    value={room.is_public ? "public" : "private"}
+                    onValueChange={(v) => isHost && updateSettings({ is_public: v === "public" })}
+                    disabled={!isHost}
+                  >
+                    <SelectTrigger className="border-2 border-foreground">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="private">Private (code only)</SelectItem>
+                      <SelectItem value="public">Public (listed in room browser)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="text-sm font-display mb-1 block">Late Joiners</label>
+                  <Select
+                    value={room.allow_late_join ? "allow" : "lobby"}
+                    onValueChange={(v) => isHost && updateSettings({ allow_late_join: v === "allow" })}
+                    disabled={!isHost}
+                  >
+                    <SelectTrigger className="border-2 border-foreground">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="lobby">Only before the game starts</SelectItem>
+                      <SelectItem value="allow">Can join mid-game</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="text-sm font-display mb-1 block">Drawing Tools</label>
+                  <Select
+                    value={room.freehand_only ? "freehand" : "all"}
+                    onValueChange={(v) => isHost && updateSettings({ freehand_only: v === "freehand" })}
+                    disabled={!isHost}
+                  >
+                    <SelectTrigger className="border-2 border-foreground">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Shapes, lines and text</SelectItem>
+                      <SelectItem value="freehand">Freehand only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 {isHost && (
                   <SketchButton
                     variant="success"
                     size="lg"
                     onClick={handleStart}
-                    disabled={players.length < 2}
+                    disabled={!canStart}
                     className="w-full mt-4"
                   >
                     <Play className="w-5 h-5" />
@@ -214,10 +358,14 @@ const Lobby = () => {
                   </SketchButton>
                 )}
 
-                {players.length < 2 && (
+                {players.length < 2 ? (
                   <p className="text-sm text-muted-foreground text-center">
                     Need at least 2 players
                   </p>
+                ) : !canStart && (
+                  <p className="text-sm text-muted-foreground text-center">
+                    Waiting for everyone to be ready
+                  </p>
                 )}
               </SketchCardContent>
             </SketchCard>
@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { ArrowLeft, Loader2, Lock, Users } from "lucide-react";
+import { SketchButton } from "@/components/game/SketchButton";
+import { SketchCard, SketchCardContent } from "@/components/game/SketchCard";
+import { useRoom } from "@/hooks/useRoom";
+import { isJoinable, type RoomListing } from "@/lib/roomDirectory";
+
+const statusLabel = (room: RoomListing) =>
+  room.status === "lobby" ? "Waiting to start"
+    : room.status === "finished" ? "Game over"
+      : `Playing round ${room.current_round}/${room.total_rounds}`;
+
+const Rooms = () => {
+  const navigate = useNavigate();
+  const { watchPublicRooms } = useRoom();
+  const [rooms, setRooms] = useState<RoomListing[] | null>(null);
+
+  useEffect(() => watchPublicRooms(setRooms), [watchPublicRooms]);
+
+  return (
+    <div className="min-h-screen p-4 md:p-8 bg-background">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <SketchButton variant="outline" size="sm" onClick={() => navigate("/")}>
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </SketchButton>
+          <h1 className="text-3xl font-handwritten">Public Rooms</h1>
+        </div>
+
+        {!rooms ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-10 h-10 animate-spin text-primary" />
+          </div>
+        ) : rooms.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">
+            No public rooms right now. Create one and mark it public!
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {rooms.map((room, i) => (
+              <motion.div
+                key={room.code}
+                initial={{ y: 10, opacity: 0 }}
+                animate={{ y: 0, opacity: 1 }}
+                transition={{ delay: i * 0.05 }}
+              >
+                <SketchCard>
+                  <SketchCardContent className="flex items-center justify-between gap-4 py-4">
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono font-bold text-xl tracking-widest">{room.code}</span>
+                        {room.has_password && <Lock className="w-4 h-4" aria-label="Password protected" />}
+                        <span className="text-sm text-muted-foreground truncate">hosted by {room.host_name}</span>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        <Users className="inline w-4 h-4 mr-1" />
+                        {room.players}/{room.max_players} · {room.total_rounds} rounds · {room.draw_time}s to draw
+                      </p>
+                      <p className="text-sm font-display">
+                        {statusLabel(room)}
+                        {room.status !== "lobby" && room.status !== "finished" && (room.allow_late_join ? " · late joiners welcome" : " · no late joiners")}
+                      </p>
+                    </div>
+                    <SketchButton
+                      variant="success"
+                      size="sm"
+                      disabled={!isJoinable(room)}
+                      onClick={() => navigate(`/join/${room.code}`)}
+                    >
+                      {room.players >= room.max_players ? "Full" : "Join"}
+                    </SketchButton>
+                  </SketchCardContent>
+                </SketchCard>
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Rooms;
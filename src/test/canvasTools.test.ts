@@ -0,0 +1,241 @@
+import "vitest-canvas-mock";
+import { describe, it, expect, vi } from "vitest";
+import { Canvas, Ellipse, Group, IText, Path, Point, Rect, type TPointerEventInfo } from "fabric";
+import { Square } from "lucide-react";
+import { availableTools, getTool, getTools, registerTool, type ToolOptions } from "@/components/canvas/tools";
+import type { Edit } from "@/lib/editHistory";
+
+const newCanvas = () => new Canvas(document.createElement("canvas"), { width: 300, height: 200 });
+
+// Black 4px pen, collecting what the tool commits
+const toolOptions = (edits: Edit[], options: Partial<ToolOptions> = {}): ToolOptions => ({
+  color: "#000000", width: 4, opacity: 1, background: "#ffffff", filled: false,
+  onPickColor: () => {},
+  commit: edit => edits.push(edit),
+  ...options,
+});
+
+// The canvas isn't zoomed or panned, so scene and viewport points are the same
+const pointer = (canvas: Canvas, event: "mouse:down" | "mouse:move" | "mouse:up", x: number, y: number) => {
+  const point = new Point(x, y);
+  canvas.fire(event, { e: new MouseEvent(event), scenePoint: point, viewportPoint: point } as TPointerEventInfo);
+};
+
+describe("canvas tools", () => {
+  it("registers the built-in tools in toolbar order, pen first", () => {
+    const ids = getTools().map(tool => tool.id);
+    expect(ids[0]).toBe("pen");
+    expect(ids).toEqual(expect.arrayContaining(["eraser", "stroke-eraser", "fill", "move", "eyedropper", "text"]));
+    expect(getTool("rectangle")?.shape).toBe(true);
+    expect(getTool("nope")).toBeUndefined();
+  });
+
+  it("takes new tools without touching anything else", () => {
+    registerTool({ id: "stamp", label: "Stamp", icon: Square, shape: true, activate: () => () => {} });
+    const ids = getTools().map(tool => tool.id);
+    expect(ids[ids.length - 1]).toBe("stamp");
+    expect(availableTools(false).map(tool => tool.id)).toContain("stamp");
+  });
+
+  it("leaves shapes and text out of freehand-only rounds", () => {
+    const freehand = availableTools(true).map(tool => tool.id);
+    expect(freehand).toContain("pen");
+    expect(freehand).toContain("eraser");
+    expect(freehand).not.toContain("rectangle");
+    expect(freehand).not.toContain("text");
+    expect(availableTools(false)).toHaveLength(getTools().length);
+  });
+
+  it("keeps what the eraser rubbed out on the object as it moves", () => {
+    const canvas = newCanvas();
+    const square = new Rect({ left: 20, top: 20, width: 100, height: 100, fill: "#ff0000" });
+    canvas.add(square);
+
+    const edits: Edit[] = [];
+    const options = toolOptions(edits);
+    const erase = (path: string) => {
+      const stop = getTool("eraser")!.activate(canvas, options);
+      const stroke = new Path(path, { stroke: "#ffffff", strokeWidth: 20, fill: null });
+      canvas.add(stroke);
+      canvas.fire("path:created", { path: stroke });
+      stop();
+    };
+    // Where the holes are on the canvas
+    const holes = () => (square.clipPath as Group).getObjects().map(erased => {
+      const { x, y } = erased.getCenterPoint().transform(square.calcTransformMatrix());
+      return [Math.round(x), Math.round(y)];
+    });
+
+    erase("M 60 60 L 80 80");
+    expect(canvas.getObjects()).toEqual([square]);
+    expect(holes()).toEqual([[70, 70]]);
+
+    square.set({ left: 120, top: 50 });
+    square.setCoords();
+    expect(holes()).toEqual([[170, 100]]);
+
+    erase("M 190 130 L 210 150");
+    expect(holes()).toEqual([[170, 100], [200, 140]]);
+
+    edits[1].undo();
+    expect(holes()).toEqual([[170, 100]]);
+    edits[0].undo();
+    expect(square.clipPath).toBeUndefined();
+  });
+
+  it("picks up the colour of the pixel clicked, as lowercase hex", () => {
+    const canvas = newCanvas();
+    const picked: string[] = [];
+    const read = vi.spyOn(canvas.getContext(), "getImageData")
+      .mockReturnValue({ data: new Uint8ClampedArray([0xab, 0xcd, 0xef, 0x80]) } as ImageData);
+
+    const stop = getTool("eyedropper")!.activate(canvas, toolOptions([], { onPickColor: color => picked.push(color) }));
+    pointer(canvas, "mouse:down", 30, 40);
+    stop();
+    pointer(canvas, "mouse:down", 30, 40);
+
+    const scale = canvas.getRetinaScaling();
+    expect(read).toHaveBeenCalledWith(30 * scale, 40 * scale, 1, 1);
+    expect(picked).toEqual(["#abcdef"]);
+  });
+
+  it("rubs out whole strokes dragged over, and puts them back where they were", () => {
+    const canvas = newCanvas();
+    const squares = [20, 80, 140].map(left => new Rect({ left, top: 20, width: 40, height: 40, fill: "#ff0000" }));
+    canvas.add(...squares);
+    // jsdom can't paint, so treat everything boxed in as painted
+    vi.spyOn(canvas, "isTargetTransparent").mockReturnValue(false);
+
+    const edits: Edit[] = [];
+    const stop = getTool("stroke-eraser")!.activate(canvas, toolOptions(edits));
+    pointer(canvas, "mouse:move", 40, 40);
+    pointer(canvas, "mouse:down", 40, 40);
+    pointer(canvas, "mouse:move", 70, 40);
+    pointer(canvas, "mouse:move", 160, 40);
+    pointer(canvas, "mouse:up", 160, 40);
+    pointer(canvas, "mouse:down", 250, 150);
+    pointer(canvas, "mouse:up", 250, 150);
+    stop();
+
+    expect(canvas.getObjects()).toEqual([squares[1]]);
+    expect(edits).toHaveLength(1);
+    edits[0].undo();
+    expect(canvas.getObjects()).toEqual(squares);
+    edits[0].redo();
+    expect(canvas.getObjects()).toEqual([squares[1]]);
+  });
+
+  it("only clips what the pixel eraser crossed, and redoes the clip", () => {
+    const canvas = newCanvas();
+    const hit = new Rect({ left: 20, top: 20, width: 60, height: 60, fill: "#ff0000" });
+    const missed = new Rect({ left: 200, top: 100, width: 60, height: 60, fill: "#0000ff" });
+    canvas.add(hit, missed);
+
+    const edits: Edit[] = [];
+    const stop = getTool("eraser")!.activate(canvas, toolOptions(edits));
+    const stroke = new Path("M 30 30 L 60 60", { stroke: "#ffffff", strokeWidth: 20, fill: null });
+    canvas.add(stroke);
+    canvas.fire("path:created", { path: stroke });
+    stop();
+
+    expect(canvas.getObjects()).toEqual([hit, missed]);
+    expect(missed.clipPath).toBeUndefined();
+    const mask = hit.clipPath;
+    expect(mask).toBeInstanceOf(Group);
+
+    edits[0].undo();
+    expect(hit.clipPath).toBeUndefined();
+    edits[0].redo();
+    expect(hit.clipPath).toBe(mask);
+  });
+
+  it("undoes a fill back to the colour it had", () => {
+    const canvas = newCanvas();
+    const square = new Rect({ left: 20, top: 20, width: 60, height: 60, fill: "#ff0000" });
+    canvas.add(square);
+    vi.spyOn(canvas, "isTargetTransparent").mockReturnValue(false);
+
+    const edits: Edit[] = [];
+    const stop = getTool("fill")!.activate(canvas, toolOptions(edits, { color: "#00ff00", opacity: 0.5 }));
+    pointer(canvas, "mouse:down", 50, 50);
+    pointer(canvas, "mouse:down", 250, 150);
+    stop();
+
+    expect(square.fill).toBe("rgba(0,255,0,0.5)");
+    expect(edits).toHaveLength(1);
+    edits[0].undo();
+    expect(square.fill).toBe("#ff0000");
+    edits[0].redo();
+    expect(square.fill).toBe("rgba(0,255,0,0.5)");
+  });
+
+  it("undoes a move, resize or turn in one step", () => {
+    const canvas = newCanvas();
+    const square = new Rect({ left: 20, top: 20, width: 60, height: 60, fill: "#ff0000" });
+    canvas.add(square);
+
+    const edits: Edit[] = [];
+    const stop = getTool("move")!.activate(canvas, toolOptions(edits));
+    canvas.fire("before:transform", { e: new MouseEvent("mousedown"), transform: { target: square } } as never);
+    square.set({ left: 100, top: 60, scaleX: 2, angle: 30 });
+    canvas.fire("object:modified", { target: square });
+    stop();
+
+    expect(edits).toHaveLength(1);
+    edits[0].undo();
+    expect([square.left, square.top, square.scaleX, square.angle]).toEqual([20, 20, 1, 0]);
+    edits[0].redo();
+    expect([square.left, square.top, square.scaleX, square.angle]).toEqual([100, 60, 2, 30]);
+  });
+
+  it("drags out one shape from where the press started", () => {
+    const canvas = newCanvas();
+    const edits: Edit[] = [];
+    const drag = (tool: string, options: Partial<ToolOptions> = {}) => {
+      const stop = getTool(tool)!.activate(canvas, toolOptions(edits, options));
+      pointer(canvas, "mouse:down", 100, 80);
+      pointer(canvas, "mouse:move", 60, 50);
+      pointer(canvas, "mouse:move", 40, 20);
+      pointer(canvas, "mouse:up", 40, 20);
+      stop();
+      return canvas.getObjects()[canvas.getObjects().length - 1];
+    };
+
+    const outline = drag("rectangle");
+    expect(outline).toBeInstanceOf(Rect);
+    expect([outline.left, outline.top, outline.width, outline.height]).toEqual([40, 20, 60, 60]);
+    expect(outline.fill).toBe("");
+
+    const solid = drag("ellipse", { filled: true, color: "#ff0000" });
+    expect(solid).toBeInstanceOf(Ellipse);
+    expect(solid.fill).toBe("rgba(255,0,0,1)");
+
+    expect(canvas.getObjects()).toEqual([outline, solid]);
+    expect(edits).toHaveLength(2);
+    edits[1].undo();
+    edits[0].undo();
+    expect(canvas.getObjects()).toEqual([]);
+  });
+
+  it("keeps text only if something was typed", () => {
+    const canvas = newCanvas();
+    const edits: Edit[] = [];
+    const type = (words: string) => {
+      const stop = getTool("text")!.activate(canvas, toolOptions(edits));
+      pointer(canvas, "mouse:down", 50, 50);
+      (canvas.getActiveObject() as IText).set({ text: words });
+      stop();
+    };
+
+    type("   ");
+    expect(canvas.getObjects()).toEqual([]);
+
+    type("a house");
+    const [text] = canvas.getObjects() as IText[];
+    expect(text.text).toBe("a house");
+    expect(text.fontFamily).toContain("Patrick Hand");
+    expect(edits).toHaveLength(1);
+    edits[0].undo();
+    expect(canvas.getObjects()).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import "vitest-canvas-mock";
+import { createRef } from "react";
+import { describe, it, expect } from "vitest";
+import { act, render, waitFor } from "@testing-library/react";
+import { Rect } from "fabric";
+import { DrawingCanvas, type DrawingCanvasHandle, type Stroke } from "@/components/canvas/DrawingCanvas";
+
+const square = (left: number) => new Rect({ left, top: 10, width: 20, height: 20, fill: "#ff0000" }).toObject() as unknown as Stroke;
+
+// A mounted canvas holding two squares, with a fresh undo history
+const renderCanvas = async () => {
+  const ref = createRef<DrawingCanvasHandle>();
+  let changes = 0;
+  render(<DrawingCanvas ref={ref} onChange={() => changes++} />);
+  await waitFor(() => expect(ref.current?.getImage()).not.toBeNull());
+  await act(async () => {
+    await ref.current!.loadStrokes([square(10), square(50)]);
+  });
+  return { canvas: ref.current!, changes: () => changes };
+};
+
+const lefts = (canvas: DrawingCanvasHandle) => canvas.getStrokes().map(stroke => stroke.left);
+
+describe("DrawingCanvas", () => {
+  it("loads strokes and hands them back", async () => {
+    const { canvas, changes } = await renderCanvas();
+    expect(lefts(canvas)).toEqual([10, 50]);
+    expect(canvas.getImage()).toMatch(/^data:image\/png/);
+    expect(changes()).toBe(1);
+  });
+
+  it("starts the history afresh on load", async () => {
+    const { canvas } = await renderCanvas();
+    act(() => canvas.undo());
+    expect(lefts(canvas)).toEqual([10, 50]);
+  });
+
+  it("undoes and redoes a clear", async () => {
+    const { canvas, changes } = await renderCanvas();
+
+    act(() => canvas.clear());
+    expect(canvas.getStrokes()).toEqual([]);
+
+    act(() => canvas.undo());
+    expect(lefts(canvas)).toEqual([10, 50]);
+
+    act(() => canvas.redo());
+    expect(canvas.getStrokes()).toEqual([]);
+    expect(changes()).toBe(4);
+  });
+
+  it("ignores clearing an empty canvas", async () => {
+    const { canvas } = await renderCanvas();
+    act(() => canvas.clear());
+    act(() => canvas.clear());
+    act(() => canvas.undo());
+    expect(lefts(canvas)).toEqual([10, 50]);
+  });
+
+  it("undoes with Ctrl+Z and redoes with Ctrl+Shift+Z", async () => {
+    const { canvas } = await renderCanvas();
+    act(() => canvas.clear());
+
+    act(() => {
+      window.dispatchEvent(new KeyboardEvent("keydown", { key: "z", ctrlKey: true }));
+    });
+    expect(lefts(canvas)).toEqual([10, 50]);
+
+    act(() => {
+      window.dispatchEvent(new KeyboardEvent("keydown", { key: "Z", ctrlKey: true, shiftKey: true }));
+    });
+    expect(canvas.getStrokes()).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { createEditHistory, type Edit } from "@/lib/editHistory";
+
+// Edits against a plain list, standing in for the canvas
+const append = (items: string[], item: string): Edit => {
+  items.push(item);
+  return {
+    undo: () => { items.pop(); },
+    redo: () => { items.push(item); },
+  };
+};
+
+describe("editHistory", () => {
+  it("undoes and redoes in order", () => {
+    const items: string[] = [];
+    const history = createEditHistory();
+    history.push(append(items, "a"));
+    history.push(append(items, "b"));
+
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(false);
+    expect(items).toEqual([]);
+
+    history.redo();
+    expect(items).toEqual(["a"]);
+    expect(history.canRedo()).toBe(true);
+  });
+
+  it("drops the redo stack on a new edit", () => {
+    const items: string[] = [];
+    const history = createEditHistory();
+    history.push(append(items, "a"));
+    history.undo();
+    history.push(append(items, "b"));
+
+    expect(history.redo()).toBe(false);
+    expect(items).toEqual(["b"]);
+  });
+
+  it("forgets the oldest edits past the limit", () => {
+    const items: string[] = [];
+    const history = createEditHistory(2);
+    ["a", "b", "c"].forEach(item => history.push(append(items, item)));
+
+    while (history.undo());
+    expect(items).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect, vi } from "vitest";
+import { parseEvent } from "@/lib/events";
+
+const vote = { voter_id: "player-a", drawing_id: "player-b-1" };
+
+describe("parseEvent", () => {
+  it("passes valid payloads through", () => {
+    expect(parseEvent("submitVote", { vote }, "player-a")).toEqual({ vote });
+  });
+
+  it("rejects and logs malformed payloads", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(parseEvent("submitVote", { vote: { voter_id: 42 } }, "player-a")).toBeNull();
+    expect(parseEvent("playerJoined", { player: { id: "x", username: "", score: -5 } }, "x")).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it("rejects oversized payloads before parsing", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const drawing = { id: "d", player_id: "p", round: 1, image_ref: "data:image/png;base64," + "A".repeat(10_000) };
+    expect(parseEvent("submitDrawing", { drawing }, "p")).toBeNull();
+    expect(warn.mock.calls[0][0]).toMatch(/oversized/);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,393 @@
+import { describe, it, expect } from "vitest";
+import {
+  createGameState,
+  electHost,
+  everyoneHasActed,
+  gameReducer,
+  rejectAction,
+  rejectJoin,
+  uniqueUsername,
+  GALLERY_TIME,
+  LATE_SUBMISSION_GRACE_MS,
+  MAX_USERNAME_LENGTH,
+  POINTS_PER_VOTE,
+  READY_COUNTDOWN,
+  RESULTS_TIME,
+  type EngineEnv,
+  type GameState,
+  type Player,
+} from "@/lib/gameEngine";
+
+const player = (id: string, extra: Partial<Player> = {}): Player => ({
+  id,
+  user_id: `user-${id}`,
+  username: id,
+  avatar_color: "#FF6B6B",
+  score: 0,
+  is_host: false,
+  is_ready: false,
+  is_connected: true,
+  ...extra,
+});
+
+const envAt = (now: number): EngineEnv => ({
+  now,
+  pickPrompt: (exclude) => `prompt-${exclude.length + 1}`,
+});
+
+const lobby = (): GameState => {
+  let state = createGameState("1234", player("host"), { total_rounds: 2, draw_time: 60, vote_time: 15 });
+  state = gameReducer(state, { type: "playerJoined", player: player("guest"), senderId: "guest" }, envAt(0));
+  return state;
+};
+
+const secondsLater = (state: GameState, seconds: number) =>
+  new Date(state.room.phase_end_at!).getTime() + seconds * 1000;
+
+describe("gameEngine", () => {
+  it("creates a lobby with the host marked as host", () => {
+    const state = lobby();
+    expect(state.room.status).toBe("lobby");
+    expect(state.room.host_id).toBe("host");
+    expect(state.players.map(p => p.id)).toEqual(["host", "guest"]);
+    expect(state.players[0].is_host).toBe(true);
+  });
+
+  it("ignores a duplicate join", () => {
+    const state = lobby();
+    expect(gameReducer(state, { type: "playerJoined", player: player("guest"), senderId: "guest" }, envAt(0))).toBe(state);
+  });
+
+  it("starts round one with a fresh prompt and deadline", () => {
+    const state = gameReducer(lobby(), { type: "startGame" }, envAt(1000));
+    expect(state.room.status).toBe("drawing");
+    expect(state.room.current_round).toBe(1);
+    expect(state.room.current_prompt).toBe("prompt-1");
+    expect(state.room.used_prompts).toEqual(["prompt-1"]);
+    expect(state.room.phase_end_at).toBe(new Date(1000 + 60_000).toISOString());
+  });
+
+  it("does nothing on tick before the phase ends", () => {
+    const state = gameReducer(lobby(), { type: "startGame" }, envAt(0));
+    expect(gameReducer(state, { type: "tick" }, envAt(59_000))).toBe(state);
+  });
+
+  it("walks through every phase and scores votes", () => {
+    let state = gameReducer(lobby(), { type: "startGame" }, envAt(0));
+    state = gameReducer(state, { type: "submitDrawing", drawing: { id: "host-1", player_id: "host", round: 1, image_ref: "a" }, senderId: "host" }, envAt(1));
+    state = gameReducer(state, { type: "submitDrawing", drawing: { id: "guest-1", player_id: "guest", round: 1, image_ref: "b" }, senderId: "guest" }, envAt(2));
+
+    let now = secondsLater(state, 0);
+    state = gameReducer(state, { type: "tick" }, envAt(now));
+    expect(state.room.status).toBe("gallery");
+    expect(state.room.phase_end_at).toBe(new Date(now + GALLERY_TIME * 1000).toISOString());
+
+    state = gameReducer(state, { type: "tick" }, envAt(secondsLater(state, 0)));
+    expect(state.room.status).toBe("voting");
+
+    state = gameReducer(state, { type: "castVote", vote: { voter_id: "host", drawing_id: "guest-1" }, senderId: "host" }, envAt(now));
+    now = secondsLater(state, 0);
+    state = gameReducer(state, { type: "tick" }, envAt(now));
+    expect(state.room.status).toBe("results");
+    expect(state.room.phase_end_at).toBe(new Date(now + RESULTS_TIME * 1000).toISOString());
+    expect(state.players.find(p => p.id === "guest")!.score).toBe(POINTS_PER_VOTE);
+    expect(state.players.find(p => p.id === "host")!.score).toBe(0);
+
+    state = gameReducer(state, { type: "tick" }, envAt(secondsLater(state, 0)));
+    expect(state.room.status).toBe("drawing");
+    expect(state.room.current_round).toBe(2);
+    expect(state.room.current_prompt).toBe("prompt-2");
+    expect(state.drawings).toEqual([]);
+    expect(state.votes).toEqual([]);
+  });
+
+  it("holds drawing open for late submissions unless every drawing is in", () => {
+    let state = gameReducer(lobby(), { type: "startGame" }, envAt(0));
+    const deadline = secondsLater(state, 0);
+    expect(gameReducer(state, { type: "tick" }, envAt(deadline))).toBe(state);
+
+    state = gameReducer(state, { type: "submitDrawing", drawing: { id: "host-1", player_id: "host", round: 1, image_ref: "a" }, senderId: "host" }, envAt(1));
+    state = gameReducer(state, { type: "submitDrawing", drawing: { id: "guest-1", player_id: "guest", round: 1, image_ref: "b" }, senderId: "guest" }, envAt(deadline + 1000));
+    expect(state.drawings).toHaveLength(2);
+    expect(gameReducer(state, { type: "tick" }, envAt(deadline + 1000)).room.status).toBe("gallery");
+  });
+
+  it("finishes after the last round and resets scores on play again", () => {
+    let state = gameReducer(lobby(), { type: "startGame" }, envAt(0));
+    for (const status of ["gallery", "voting", "results", "drawing", "gallery", "voting", "results", "finished"]) {
+      // Nobody drew, so the drawing phase also waits out the late-submission grace
+      state = gameReducer(state, { type: "tick" }, envAt(secondsLater(state, 0) + LATE_SUBMISSION_GRACE_MS));
+      expect(state.room.status).toBe(status);
+    }
+    expect(state.room.phase_end_at).toBeNull();
+
+    state = { ...state, players: state.players.map(p => ({ ...p, score: 300 })) };
+    state = gameReducer(state, { type: "startGame" }, envAt(0));
+    expect(state.room.current_round).toBe(1);
+    expect(state.players.every(p => p.score === 0)).toBe(true);
+  });
+
+  it("keeps the sitting host while present and otherwise elects the oldest connection", () => {
+    let state = lobby();
+    state = gameReducer(state, { type: "playerJoined", player: player("late"), senderId: "late" }, envAt(0));
+
+    expect(electHost(state, ["guest", "host", "late"])).toBe("host");
+    expect(electHost(state, ["late", "guest"])).toBe("late");
+    expect(electHost(state, ["stranger"])).toBeNull();
+  });
+
+  it("migrates the host without touching round progress", () => {
+    let state = gameReducer(lobby(), { type: "startGame" }, envAt(0));
+    state = gameReducer(state, { type: "submitDrawing", drawing: { id: "host-1", player_id: "host", round: 1, image_ref: "a" }, senderId: "host" }, envAt(1));
+    state = gameReducer(state, { type: "presenceChanged", connectedIds: ["guest"] }, envAt(2));
+    expect(state.players.find(p => p.id === "host")!.is_connected).toBe(false);
+
+    const migrated = gameReducer(state, { type: "migrateHost", hostId: "guest" }, envAt(3));
+    expect(migrated.room.host_id).toBe("guest");
+    expect(migrated.players.map(p => p.is_host)).toEqual([false, true]);
+    expect(migrated.room.phase_end_at).toBe(state.room.phase_end_at);
+    expect(migrated.drawings).toEqual(state.drawings);
+  });
+
+  it("restores a returning player's seat, score and drawing", () => {
+    let state = gameReducer(lobby(), { type: "startGame" }, envAt(0));
+    state = gameReducer(state, { type: "submitDrawing", drawing: { id: "guest-1", player_id: "guest", round: 1, image_ref: "b" }, senderId: "guest" }, envAt(1));
+    state = { ...state, players: state.players.map(p => (p.id === "guest" ? { ...p, score: 200 } : p)) };
+    state = gameReducer(state, { type: "presenceChanged", connectedIds: ["host"] }, envAt(2));
+
+    // Reload: same session id, rejoining under a placeholder name
+    const reloaded = gameReducer(state, { type: "playerJoined", player: player("guest", { username: "Player" }), senderId: "guest" }, envAt(3));
+    expect(reloaded.players).toHaveLength(2);
+    expect(reloaded.players[1]).toMatchObject({ id: "guest", username: "guest", score: 200, is_connected: true });
+
+    // New tab for the same user: the seat and drawing move to the new id
+    const newTab = gameReducer(state, { type: "playerJoined", player: player("guest-tab2", { user_id: "user-guest" }), senderId: "guest-tab2" }, envAt(3));
+    expect(newTab.players.map(p => p.id)).toEqual(["host", "guest-tab2"]);
+    expect(newTab.players[1]).toMatchObject({ username: "guest", score: 200 });
+    expect(newTab.drawings[0].player_id).toBe("guest-tab2");
+  });
+
+  describe("anti-cheat", () => {
+    const drawingPhase = () => gameReducer(lobby(), { type: "startGame" }, envAt(0));
+    const drawing = (playerId: string, round = 1) => ({ id: `${playerId}-${round}`, player_id: playerId, round, image_ref: "ref" });
+
+    const votingPhase = () => {
+      let state = drawingPhase();
+      state = gameReducer(state, { type: "submitDrawing", drawing: drawing("host"), senderId: "host" }, envAt(1));
+      state = gameReducer(state, { type: "submitDrawing", drawing: drawing("guest"), senderId: "guest" }, envAt(1));
+      state = gameReducer(state, { type: "tick" }, envAt(secondsLater(state, 0)));
+      return gameReducer(state, { type: "tick" }, envAt(secondsLater(state, 0)));
+    };
+
+    it("accepts one drawing per player per round, in time, from its author", () => {
+      const state = drawingPhase();
+      const deadline = secondsLater(state, 0);
+
+      expect(rejectAction(state, { type: "submitDrawing", drawing: drawing("guest"), senderId: "host" }, envAt(1))).toMatch(/another player/);
+      expect(rejectAction(state, { type: "submitDrawing", drawing: drawing("guest", 2), senderId: "guest" }, envAt(1))).toMatch(/another round/);
+      expect(rejectAction(state, { type: "submitDrawing", drawing: drawing("guest"), senderId: "guest" }, envAt(deadline + LATE_SUBMISSION_GRACE_MS))).toBeNull();
+      expect(rejectAction(state, { type: "submitDrawing", drawing: drawing("guest"), senderId: "guest" }, envAt(deadline + LATE_SUBMISSION_GRACE_MS + 1))).toMatch(/time is up/);
+
+      const submitted = gameReducer(state, { type: "submitDrawing", drawing: drawing("guest"), senderId: "guest" }, envAt(1));
+      expect(submitted.drawings).toHaveLength(1);
+      expect(gameReducer(submitted, { type: "submitDrawing", drawing: drawing("guest"), senderId: "guest" }, envAt(2))).toBe(submitted);
+    });
+
+    it("rejects votes outside voting, for yourself or for someone else", () => {
+      expect(rejectAction(drawingPhase(), { type: "castVote", vote: { voter_id: "host", drawing_id: "guest-1" }, senderId: "host" }, envAt(1))).toMatch(/closed during drawing/);
+
+      const state = votingPhase();
+      const now = secondsLater(state, -1);
+      expect(rejectAction(state, { type: "castVote", vote: { voter_id: "host", drawing_id: "host-1" }, senderId: "host" }, envAt(now))).toMatch(/own drawing/);
+      expect(rejectAction(state, { type: "castVote", vote: { voter_id: "guest", drawing_id: "host-1" }, senderId: "host" }, envAt(now))).toMatch(/another player/);
+      expect(rejectAction(state, { type: "castVote", vote: { voter_id: "host", drawing_id: "nope" }, senderId: "host" }, envAt(now))).toMatch(/no such drawing/);
+    });
+
+    it("keeps one vote per voter and lets them change it", () => {
+      let state = votingPhase();
+      const players = [...state.players, player("third")];
+      state = { ...state, players, drawings: [...state.drawings, drawing("third")] };
+      const now = secondsLater(state, -1);
+
+      state = gameReducer(state, { type: "castVote", vote: { voter_id: "host", drawing_id: "guest-1" }, senderId: "host" }, envAt(now));
+      state = gameReducer(state, { type: "castVote", vote: { voter_id: "host", drawing_id: "guest-1" }, senderId: "host" }, envAt(now));
+      expect(state.votes).toEqual([{ voter_id: "host", drawing_id: "guest-1" }]);
+
+      state = gameReducer(state, { type: "castVote", vote: { voter_id: "host", drawing_id: "third-1" }, senderId: "host" }, envAt(now));
+      expect(state.votes).toEqual([{ voter_id: "host", drawing_id: "third-1" }]);
+    });
+
+    it("only lets a client join as itself, with no head start", () => {
+      const state = lobby();
+      expect(rejectAction(state, { type: "playerJoined", player: player("mallory"), senderId: "eve" })).toMatch(/does not match/);
+
+      const joined = gameReducer(state, { type: "playerJoined", player: player("mallory", { score: 9000, is_host: true }), senderId: "mallory" }, envAt(0));
+      expect(joined.players[2]).toMatchObject({ score: 0, is_host: false });
+    });
+  });
+
+  describe("early advance", () => {
+    const drawing = (playerId: string) => ({ id: `${playerId}-1`, player_id: playerId, round: 1, image_ref: "ref" });
+
+    it("cuts drawing short to the grace countdown once everyone has submitted", () => {
+      let state = gameReducer(lobby(), { type: "startGame" }, envAt(0));
+      state = gameReducer(state, { type: "submitDrawing", drawing: drawing("host"), senderId: "host" }, envAt(10_000));
+      expect(state.room.phase_end_at).toBe(new Date(60_000).toISOString());
+
+      state = gameReducer(state, { type: "submitDrawing", drawing: drawing("guest"), senderId: "guest" }, envAt(20_000));
+      expect(state.room.phase_end_at).toBe(new Date(23_000).toISOString());
+    });
+
+    it("counts only connected players and respects a disabled grace", () => {
+      let state = gameReducer(lobby(), { type: "startGame" }, envAt(0));
+      state = gameReducer(state, { type: "submitDrawing", drawing: drawing("host"), senderId: "host" }, envAt(10_000));
+      state = gameReducer(state, { type: "presenceChanged", connectedIds: ["host"] }, envAt(15_000));
+      expect(state.room.phase_end_at).toBe(new Date(18_000).toISOString());
+
+      let waiting = gameReducer(lobby(), { type: "updateSettings", settings: { advance_grace: null } }, envAt(0));
+      waiting = gameReducer(waiting, { type: "startGame" }, envAt(0));
+      waiting = gameReducer(waiting, { type: "submitDrawing", drawing: drawing("host"), senderId: "host" }, envAt(1));
+      waiting = gameReducer(waiting, { type: "submitDrawing", drawing: drawing("guest"), senderId: "guest" }, envAt(2));
+      expect(waiting.room.phase_end_at).toBe(new Date(60_000).toISOString());
+    });
+
+    it("ends voting once every eligible voter has voted", () => {
+      let state = gameReducer(lobby(), { type: "startGame" }, envAt(0));
+      state = gameReducer(state, { type: "submitDrawing", drawing: drawing("host"), senderId: "host" }, envAt(1));
+      state = gameReducer(state, { type: "submitDrawing", drawing: drawing("guest"), senderId: "guest" }, envAt(2));
+      state = gameReducer(state, { type: "tick" }, envAt(secondsLater(state, 0)));
+      state = gameReducer(state, { type: "tick" }, envAt(secondsLater(state, 0)));
+      const start = secondsLater(state, -15);
+
+      state = gameReducer(state, { type: "castVote", vote: { voter_id: "host", drawing_id: "guest-1" }, senderId: "host" }, envAt(start + 1000));
+      expect(everyoneHasActed(state)).toBe(false);
+      state = gameReducer(state, { type: "castVote", vote: { voter_id: "guest", drawing_id: "host-1" }, senderId: "guest" }, envAt(start + 2000));
+      expect(everyoneHasActed(state)).toBe(true);
+      expect(state.room.phase_end_at).toBe(new Date(start + 5000).toISOString());
+    });
+  });
+
+  describe("ready check", () => {
+    const strictLobby = () => gameReducer(lobby(), { type: "updateSettings", settings: { require_ready: true } }, envAt(0));
+
+    it("only lets the host start once everyone is ready", () => {
+      const state = strictLobby();
+      expect(rejectAction(state, { type: "startGame" }, envAt(0))).toMatch(/not everyone is ready/);
+      expect(gameReducer(state, { type: "setReady", ready: true, senderId: "stranger" }, envAt(0))).toBe(state);
+
+      const ready = gameReducer(state, { type: "setReady", ready: true, senderId: "guest" }, envAt(0));
+      expect(ready.players.find(p => p.id === "guest")!.is_ready).toBe(true);
+      expect(rejectAction(ready, { type: "startGame" }, envAt(0))).toBeNull();
+    });
+
+    it("counts down once everyone is ready and starts on its own", () => {
+      let state = gameReducer(strictLobby(), { type: "setReady", ready: true, senderId: "guest" }, envAt(1000));
+      expect(state.room.phase_end_at).toBe(new Date(1000 + READY_COUNTDOWN * 1000).toISOString());
+
+      // Backing out stops the countdown
+      const unready = gameReducer(state, { type: "setReady", ready: false, senderId: "guest" }, envAt(2000));
+      expect(unready.room.phase_end_at).toBeNull();
+
+      expect(gameReducer(state, { type: "tick" }, envAt(2000))).toBe(state);
+      state = gameReducer(state, { type: "tick" }, envAt(secondsLater(state, 0)));
+      expect(state.room.status).toBe("drawing");
+      expect(state.room.current_round).toBe(1);
+    });
+  });
+
+  describe("moderation", () => {
+    it("kicks a player along with their drawing and the votes around it", () => {
+      let state = gameReducer(lobby(), { type: "playerJoined", player: player("third"), senderId: "third" }, envAt(0));
+      state = {
+        ...state,
+        drawings: [{ id: "guest-1", player_id: "guest", round: 1, image_ref: "a" }, { id: "third-1", player_id: "third", round: 1, image_ref: "b" }],
+        votes: [{ voter_id: "host", drawing_id: "guest-1" }, { voter_id: "guest", drawing_id: "third-1" }, { voter_id: "third", drawing_id: "guest-1" }],
+      };
+
+      state = gameReducer(state, { type: "kickPlayer", playerId: "guest", ban: false }, envAt(0));
+      expect(state.players.map(p => p.id)).toEqual(["host", "third"]);
+      expect(state.drawings.map(d => d.id)).toEqual(["third-1"]);
+      expect(state.votes).toEqual([]);
+      expect(rejectAction(state, { type: "kickPlayer", playerId: "host", ban: false }, envAt(0))).toMatch(/host cannot/);
+
+      // A kick is not a ban
+      const back = gameReducer(state, { type: "playerJoined", player: player("guest"), senderId: "guest" }, envAt(0));
+      expect(back.players).toHaveLength(3);
+    });
+
+    it("keeps a banned user out, whatever tab they come back from", () => {
+      const state = gameReducer(lobby(), { type: "kickPlayer", playerId: "guest", ban: true }, envAt(0));
+      expect(state.room.banned_user_ids).toEqual(["user-guest"]);
+
+      const newTab = { ...player("guest-tab2"), user_id: "user-guest" };
+      expect(rejectAction(state, { type: "playerJoined", player: newTab, senderId: "guest-tab2" }, envAt(0))).toMatch(/banned/);
+      expect(gameReducer(state, { type: "playerJoined", player: newTab, senderId: "guest-tab2" }, envAt(0))).toBe(state);
+    });
+  });
+
+  describe("capacity", () => {
+    it("turns newcomers away from a full room or a running game, but not returning players", () => {
+      const full = gameReducer(lobby(), { type: "updateSettings", settings: { max_players: 2 } }, envAt(0));
+      expect(rejectJoin(full, player("third"))).toBe("room_full");
+      expect(gameReducer(full, { type: "playerJoined", player: player("third"), senderId: "third" }, envAt(0))).toBe(full);
+
+      let playing = gameReducer(lobby(), { type: "startGame" }, envAt(0));
+      expect(rejectJoin(playing, player("third"))).toBe("in_progress");
+      playing = gameReducer(playing, { type: "presenceChanged", connectedIds: ["host"] }, envAt(1));
+      expect(rejectJoin(playing, player("guest"))).toBeNull();
+
+      playing = gameReducer(playing, { type: "updateSettings", settings: { allow_late_join: true } }, envAt(1));
+      expect(rejectJoin(playing, player("third"))).toBeNull();
+    });
+
+    it("frees the seats of players who are gone for newcomers", () => {
+      let state = gameReducer(lobby(), { type: "updateSettings", settings: { max_players: 2 } }, envAt(0));
+      state = { ...state, drawings: [{ id: "guest-1", player_id: "guest", round: 1, image_ref: "a" }] };
+      state = gameReducer(state, { type: "presenceChanged", connectedIds: ["host"] }, envAt(0));
+      expect(rejectJoin(state, player("third"))).toBeNull();
+
+      state = gameReducer(state, { type: "playerJoined", player: player("third"), senderId: "third" }, envAt(0));
+      expect(state.players.map(p => p.id)).toEqual(["host", "third"]);
+      expect(state.drawings).toEqual([]);
+      expect(rejectJoin(state, player("guest"))).toBe("room_full");
+    });
+
+    it("checks a newcomer's name against the seats left once stale ones are freed", () => {
+      const longName = "x".repeat(MAX_USERNAME_LENGTH);
+      let state = gameReducer(lobby(), { type: "updateSettings", settings: { max_players: 3 } }, envAt(0));
+      state = gameReducer(state, { type: "playerJoined", player: { ...player("gone"), username: longName }, senderId: "gone" }, envAt(0));
+      state = gameReducer(state, { type: "presenceChanged", connectedIds: ["host", "guest"] }, envAt(0));
+
+      // The stale seat goes, and its name with it, so the name is free to take as is
+      const newcomer = { ...player("new"), username: longName };
+      expect(rejectJoin(state, newcomer)).toBeNull();
+      state = gameReducer(state, { type: "playerJoined", player: newcomer, senderId: "new" }, envAt(0));
+      expect(state.players.map(p => p.id)).toEqual(["host", "guest", "new"]);
+      expect(state.players[2].username).toBe(longName);
+    });
+
+    it("asks for the password even from players coming back to their seat", () => {
+      let state = gameReducer(lobby(), { type: "updateSettings", settings: { has_password: true } }, envAt(0));
+      state = gameReducer(state, { type: "presenceChanged", connectedIds: ["host"] }, envAt(0));
+
+      // Anyone on the channel can read the guest's ids out of the state
+      const impostor = { ...player("impostor"), user_id: "user-guest" };
+      expect(rejectJoin(state, impostor, false)).toBe("wrong_password");
+      expect(rejectJoin(state, player("guest"), false)).toBe("wrong_password");
+      expect(rejectJoin(state, player("guest"), true)).toBeNull();
+    });
+
+    it("numbers duplicate names and refuses ones that can't be numbered", () => {
+      const sam = (id: string, username = "Sam") => ({ ...player(id), username });
+      let state = gameReducer(lobby(), { type: "playerJoined", player: sam("a"), senderId: "a" }, envAt(0));
+      state = gameReducer(state, { type: "playerJoined", player: sam("b", "sam"), senderId: "b" }, envAt(0));
+      state = gameReducer(state, { type: "playerJoined", player: sam("c"), senderId: "c" }, envAt(0));
+      expect(state.players.map(p => p.username)).toEqual(["host", "guest", "Sam", "sam 2", "Sam 3"]);
+
+      const longName = "x".repeat(MAX_USERNAME_LENGTH);
+      state = gameReducer(state, { type: "playerJoined", player: sam("d", longName), senderId: "d" }, envAt(0));
+      expect(uniqueUsername(state.players, longName)).toBeNull();
+      expect(rejectJoin(state, sam("e", longName))).toBe("name_taken");
+    });
+  });
+});
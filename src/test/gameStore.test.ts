@@ -0,0 +1,33 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { DEFAULT_BRUSH, useGameStore } from "@/lib/gameStore";
+
+describe("gameStore brush", () => {
+  beforeEach(() => {
+    useGameStore.setState({ brush: DEFAULT_BRUSH });
+  });
+
+  it("changes only the brush settings it is given", () => {
+    useGameStore.getState().setBrush({ width: 12 });
+    useGameStore.getState().setBrush({ opacity: 0.5 });
+    expect(useGameStore.getState().brush).toEqual({ ...DEFAULT_BRUSH, width: 12, opacity: 0.5 });
+  });
+
+  it("remembers recent colours newest first, once each, up to eight", () => {
+    const { rememberColor } = useGameStore.getState();
+    ["#000001", "#000002", "#000003"].forEach(rememberColor);
+    rememberColor("#000001");
+    expect(useGameStore.getState().brush.recentColors).toEqual(["#000001", "#000003", "#000002"]);
+
+    for (let i = 4; i <= 12; i++) rememberColor(`#0000${String(i).padStart(2, "0")}`);
+    const recent = useGameStore.getState().brush.recentColors;
+    expect(recent).toHaveLength(8);
+    expect(recent[0]).toBe("#000012");
+    expect(recent).not.toContain("#000002");
+  });
+
+  it("keeps the brush when leaving a game", () => {
+    useGameStore.getState().setBrush({ color: "#ff00ff" });
+    useGameStore.getState().clearGame();
+    expect(useGameStore.getState().brush.color).toBe("#ff00ff");
+  });
+});
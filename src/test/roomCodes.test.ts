@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryBus } from "@/lib/transport";
+import { allocateRoomCode, generateRoomCode, isRoomCodeTaken, ROOM_CODE_ALPHABET } from "@/lib/roomCodes";
+
+describe("room codes", () => {
+  it("draws codes of the requested length from the unambiguous alphabet", () => {
+    const code = generateRoomCode(6);
+    expect(code).toHaveLength(6);
+    expect([...code].every(c => ROOM_CODE_ALPHABET.includes(c))).toBe(true);
+  });
+
+  it("sees when someone is already on a code's channel", async () => {
+    const bus = createMemoryBus();
+    expect(await isRoomCodeTaken(bus, "ABCDE", "me", 0)).toBe(false);
+
+    const host = bus("room:ABCDE", "host");
+    await host.subscribe();
+    expect(await isRoomCodeTaken(bus, "ABCDE", "me", 0)).toBe(true);
+
+    // The probe leaves again, so it never looks like a player
+    expect(host.presence().map(m => m.key)).toEqual(["host"]);
+  });
+
+  it("allocates a free code", async () => {
+    const code = await allocateRoomCode(createMemoryBus(), "me", { length: 4, checkMs: 0 });
+    expect(code).toMatch(/^[A-Z2-9]{4}$/);
+  });
+});
@@ -0,0 +1,451 @@
+import { describe, it, expect } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { createMemoryBus, type RoomTransport } from "@/lib/transport";
+import { useRoomConnection } from "@/hooks/useRoomConnection";
+import { useGameStore } from "@/lib/gameStore";
+import { createMemoryDrawingStore } from "@/lib/drawingStore";
+import type { RoomListing } from "@/lib/roomDirectory";
+
+// One offline "backend" per test; nothing to wait for when checking room codes
+const createWorld = () => ({ createTransport: createMemoryBus(), drawingStore: createMemoryDrawingStore(), codeCheckMs: 0 });
+type World = ReturnType<typeof createWorld>;
+
+// Every hook in a test shares one sessionStorage; forget the stored player id
+// between renders so each one is a separate player
+const renderPlayer = (world: World) => {
+  useGameStore.getState().clearGame();
+  return renderHook(() => useRoomConnection(world));
+};
+
+// A hosted room with one guest in it, once both sides have seen the join
+const hostAndGuest = async (world: World, password = "") => {
+  const host = renderPlayer(world);
+  const guest = renderPlayer(world);
+
+  let code = "";
+  await act(async () => {
+    code = await host.result.current.createRoom("Host", { password });
+  });
+  await act(async () => {
+    await guest.result.current.joinRoom(code, "Guest", password);
+  });
+  await waitFor(() => {
+    expect(host.result.current.players).toHaveLength(2);
+    expect(guest.result.current.players).toHaveLength(2);
+  });
+  return { host, guest, code };
+};
+
+describe("useRoomConnection over the memory transport", () => {
+  it("lets a guest join a hosted room", async () => {
+    const { host, guest } = await hostAndGuest(createWorld());
+
+    await waitFor(() => expect(guest.result.current.roomLoadingState).toBe("connected"));
+    expect(host.result.current.players.map(p => p.username)).toEqual(["Host", "Guest"]);
+    expect(guest.result.current.players.map(p => p.username)).toEqual(["Host", "Guest"]);
+    expect(guest.result.current.isHost).toBe(false);
+
+    host.unmount();
+    guest.unmount();
+  });
+
+  it("promotes a guest when the host leaves", async () => {
+    const { host, guest } = await hostAndGuest(createWorld());
+
+    await act(async () => {
+      await host.result.current.leaveRoom();
+    });
+
+    await waitFor(() => expect(guest.result.current.isHost).toBe(true));
+    const oldHost = guest.result.current.players.find(p => p.username === "Host");
+    expect(oldHost?.is_connected).toBe(false);
+
+    host.unmount();
+    guest.unmount();
+  });
+
+  it("asks for the room again when a snapshot request goes unanswered", async () => {
+    const world = createWorld();
+    const host = renderPlayer(world);
+    // The guest's first request for the room never arrives
+    let dropped = false;
+    const createTransport: typeof world.createTransport = (channel, key) => {
+      const transport = world.createTransport(channel, key);
+      return {
+        ...transport,
+        send: (event, payload) => {
+          if (event === "requestState" && !dropped) {
+            dropped = true;
+            return;
+          }
+          transport.send(event, payload);
+        },
+      };
+    };
+    useGameStore.getState().clearGame();
+    const guest = renderHook(() => useRoomConnection({ ...world, createTransport, snapshotRetryMs: 20 }));
+
+    let code = "";
+    await act(async () => {
+      code = await host.result.current.createRoom("Host");
+    });
+    let failure: string | null = "";
+    await act(async () => {
+      failure = await guest.result.current.joinRoom(code, "Guest");
+    });
+
+    expect(dropped).toBe(true);
+    expect(failure).toBeNull();
+    expect(guest.result.current.players).toHaveLength(2);
+
+    host.unmount();
+    guest.unmount();
+  });
+
+  it("has a host that dropped out follow whoever took over", async () => {
+    const world = createWorld();
+    const transports = new Map<string, RoomTransport>();
+    const createTransport: typeof world.createTransport = (channel, key) => {
+      const transport = world.createTransport(channel, key);
+      if (channel.startsWith("room:")) transports.set(key, transport);
+      return transport;
+    };
+    const { host, guest } = await hostAndGuest({ ...world, createTransport });
+    const hostTransport = transports.get(host.result.current.playerId)!;
+
+    // The host's connection blips, long enough for the guest to take over
+    await act(async () => {
+      await hostTransport.close();
+    });
+    await waitFor(() => expect(guest.result.current.isHost).toBe(true));
+    await act(async () => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await hostTransport.subscribe();
+    });
+
+    await waitFor(() => expect(host.result.current.isHost).toBe(false));
+    expect(guest.result.current.isHost).toBe(true);
+    expect(host.result.current.room?.host_id).toBe(guest.result.current.playerId);
+    await waitFor(() => expect(guest.result.current.players.every(p => p.is_connected)).toBe(true));
+
+    host.unmount();
+    guest.unmount();
+  });
+
+  it("gives a reloaded player their seat back, password and all", async () => {
+    const world = createWorld();
+    const { host, guest, code } = await hostAndGuest(world, "hunter2");
+    const guestId = guest.result.current.playerId;
+
+    // Same tab after a reload: same stored id and name, fresh hook
+    guest.unmount();
+    await waitFor(() => expect(host.result.current.players[1].is_connected).toBe(false));
+    const reloaded = renderHook(() => useRoomConnection(world));
+    await act(async () => {
+      await reloaded.result.current.rejoinRoom(code);
+    });
+
+    await waitFor(() => expect(reloaded.result.current.roomLoadingState).toBe("connected"));
+    expect(reloaded.result.current.playerId).toBe(guestId);
+    expect(host.result.current.players).toHaveLength(2);
+    expect(host.result.current.players[1]).toMatchObject({ id: guestId, username: "Guest", is_connected: true });
+
+    host.unmount();
+    reloaded.unmount();
+  });
+
+  it("shares drawings by reference and resolves them from the store", async () => {
+    const { host, guest } = await hostAndGuest(createWorld());
+
+    await act(async () => {
+      await host.result.current.startGame();
+    });
+    await waitFor(() => expect(guest.result.current.room?.status).toBe("drawing"));
+
+    await act(async () => {
+      await guest.result.current.submitDrawing("data:image/png;base64,AAAA");
+    });
+
+    await waitFor(() => expect(host.result.current.drawings).toHaveLength(1));
+    const [drawing] = host.result.current.drawings;
+    expect(drawing.image_ref).toMatch(/^memory:/);
+    await expect(host.result.current.resolveDrawing(drawing.image_ref)).resolves.toBe("data:image/png;base64,AAAA");
+
+    host.unmount();
+    guest.unmount();
+  });
+
+  it("refuses drawings that point outside the drawing store", async () => {
+    const world = createWorld();
+    const host = renderPlayer(world);
+    useGameStore.getState().clearGame();
+    const cheat = renderHook(() => useRoomConnection({
+      ...world,
+      drawingStore: { ...createMemoryDrawingStore(), put: async () => "https://example.com/tracker.png" },
+    }));
+
+    let code = "";
+    await act(async () => {
+      code = await host.result.current.createRoom("Host");
+    });
+    await act(async () => {
+      await cheat.result.current.joinRoom(code, "Cheat");
+    });
+    await act(async () => {
+      await host.result.current.startGame();
+    });
+    await waitFor(() => expect(cheat.result.current.room?.status).toBe("drawing"));
+
+    await act(async () => {
+      await cheat.result.current.submitDrawing("data:image/png;base64,AAAA");
+    });
+
+    expect(host.result.current.drawings).toEqual([]);
+    await expect(host.result.current.resolveDrawing("https://example.com/tracker.png")).rejects.toThrow(/unknown drawing/i);
+
+    host.unmount();
+    cheat.unmount();
+  });
+
+  it("sends a kicked player home and tells them why", async () => {
+    const { host, guest, code } = await hostAndGuest(createWorld());
+
+    await act(async () => {
+      host.result.current.kickPlayer(guest.result.current.playerId, true);
+    });
+
+    await waitFor(() => expect(guest.result.current.removal).toEqual({ code, banned: true }));
+    expect(guest.result.current.room).toBeNull();
+    expect(host.result.current.players).toHaveLength(1);
+
+    host.unmount();
+    guest.unmount();
+  });
+
+  it("takes room state from the host only", async () => {
+    const world = createWorld();
+    const { host, guest, code } = await hostAndGuest(world);
+    const forged = { ...host.result.current.room!, status: "finished", host_id: "stranger" };
+
+    const stranger = world.createTransport(`room:${code}`, "stranger");
+    await stranger.subscribe();
+    await act(async () => {
+      stranger.send("gameState", { seq: 99, state: { room: forged, players: host.result.current.players, drawings: [], votes: [] } });
+    });
+
+    expect(guest.result.current.room?.status).toBe("lobby");
+    expect(guest.result.current.players).toHaveLength(2);
+
+    await stranger.close();
+    host.unmount();
+    guest.unmount();
+  });
+
+  it("ignores kicks from anyone but the host", async () => {
+    const world = createWorld();
+    const { host, guest, code } = await hostAndGuest(world);
+
+    const stranger = world.createTransport(`room:${code}`, "stranger");
+    await stranger.subscribe();
+    await act(async () => {
+      stranger.send("kicked", { playerId: guest.result.current.playerId, banned: true });
+    });
+
+    expect(guest.result.current.removal).toBeNull();
+    expect(guest.result.current.room?.code).toBe(code);
+
+    await stranger.close();
+    host.unmount();
+    guest.unmount();
+  });
+
+  it("tells a player why the host turned them away", async () => {
+    const world = createWorld();
+    const host = renderPlayer(world);
+    const guest = renderPlayer(world);
+
+    let code = "";
+    await act(async () => {
+      code = await host.result.current.createRoom("Host");
+      host.result.current.updateSettings({ max_players: 1 });
+    });
+
+    let rejection: string | null = null;
+    await act(async () => {
+      rejection = await guest.result.current.joinRoom(code, "Guest");
+    });
+
+    expect(rejection).toBe("room_full");
+    expect(guest.result.current.roomLoadingState).toBe("error");
+    expect(guest.result.current.room).toBeNull();
+    expect(host.result.current.players).toHaveLength(1);
+
+    host.unmount();
+    guest.unmount();
+  });
+
+  it("gives up on a room nobody is hosting", async () => {
+    const world = createWorld();
+    useGameStore.getState().clearGame();
+    const guest = renderHook(() => useRoomConnection({ ...world, joinTimeoutMs: 50 }));
+
+    let failure: string | null = null;
+    await act(async () => {
+      failure = await guest.result.current.joinRoom("ZZZZ", "Guest");
+    });
+
+    expect(failure).toBe("not_found");
+    expect(guest.result.current.roomLoadingState).toBe("error");
+    expect(guest.result.current.error).toMatch(/no room/i);
+
+    guest.unmount();
+  });
+
+  it("says so when it can't reach the room at all", async () => {
+    const world = createWorld();
+    const createTransport: typeof world.createTransport = (channel, key) => ({
+      ...world.createTransport(channel, key),
+      subscribe: () => Promise.reject(new Error("offline")),
+    });
+    useGameStore.getState().clearGame();
+    const guest = renderHook(() => useRoomConnection({ ...world, createTransport }));
+
+    let failure: string | null = null;
+    await act(async () => {
+      failure = await guest.result.current.joinRoom("ZZZZ", "Guest");
+    });
+
+    expect(failure).toBe("connection_failed");
+    expect(guest.result.current.roomLoadingState).toBe("error");
+    expect(guest.result.current.error).toMatch(/could not connect/i);
+
+    guest.unmount();
+  });
+
+  it("only lets players with the room password in", async () => {
+    const world = createWorld();
+    const host = renderPlayer(world);
+    const guest = renderPlayer(world);
+
+    let code = "";
+    await act(async () => {
+      code = await host.result.current.createRoom("Host", { password: "hunter2" });
+    });
+    expect(host.result.current.room?.has_password).toBe(true);
+
+    let failure: string | null = null;
+    await act(async () => {
+      failure = await guest.result.current.joinRoom(code, "Guest", "guess");
+    });
+    expect(failure).toBe("wrong_password");
+
+    await act(async () => {
+      failure = await guest.result.current.joinRoom(code, "Guest", "hunter2");
+    });
+    expect(failure).toBeNull();
+    expect(host.result.current.players).toHaveLength(2);
+
+    host.unmount();
+    guest.unmount();
+  });
+
+  it("keeps a wrong password out while someone else gets a snapshot", async () => {
+    const world = createWorld();
+    const host = renderPlayer(world);
+    const guest = renderPlayer(world);
+    const intruder = renderPlayer(world);
+
+    let code = "";
+    await act(async () => {
+      code = await host.result.current.createRoom("Host", { password: "hunter2" });
+    });
+    await act(async () => {
+      await guest.result.current.joinRoom(code, "Guest", "hunter2");
+    });
+
+    // While the intruder's password is being checked, the guest asks for the
+    // room, and the host's answer goes to the whole channel
+    const asking = world.createTransport(`room:${code}`, guest.result.current.playerId);
+    asking.on("joinChallenge", () => asking.send("requestState", { requesterId: guest.result.current.playerId }));
+    await asking.subscribe();
+
+    let failure: string | null = null;
+    await act(async () => {
+      failure = await intruder.result.current.joinRoom(code, "Intruder", "guess");
+    });
+
+    expect(failure).toBe("wrong_password");
+    expect(intruder.result.current.roomLoadingState).toBe("error");
+    expect(intruder.result.current.room).toBeNull();
+    expect(host.result.current.players).toHaveLength(2);
+
+    await asking.close();
+    host.unmount();
+    guest.unmount();
+    intruder.unmount();
+  });
+
+  it("doesn't let an overheard password proof in again", async () => {
+    const world = createWorld();
+    const host = renderPlayer(world);
+    const guest = renderPlayer(world);
+
+    let code = "";
+    await act(async () => {
+      code = await host.result.current.createRoom("Host", { password: "hunter2" });
+    });
+
+    // Someone on the channel records the guest's answer and replays it as their own
+    const eve = world.createTransport(`room:${code}`, "eve");
+    let overheard: unknown = null;
+    const rejections: unknown[] = [];
+    eve.on("joinResponse", payload => { overheard = payload; });
+    eve.on<{ playerId: string }>("joinChallenge", ({ playerId }) => {
+      if (playerId === "eve") eve.send("joinResponse", overheard);
+    });
+    eve.on("joinRejected", payload => rejections.push(payload));
+    await eve.subscribe();
+
+    await act(async () => {
+      await guest.result.current.joinRoom(code, "Guest", "hunter2");
+    });
+    expect(overheard).toEqual({ proof: expect.stringMatching(/^[0-9a-f]{64}$/) });
+
+    const player = { id: "eve", user_id: "eve", username: "Eve", avatar_color: "#000000", score: 0, is_host: false, is_ready: false, is_connected: true };
+    eve.send("playerJoined", { player });
+
+    await waitFor(() => expect(rejections).toEqual([{ playerId: "eve", reason: "wrong_password" }]));
+    expect(host.result.current.players).toHaveLength(2);
+
+    await eve.close();
+    host.unmount();
+    guest.unmount();
+  });
+
+  it("lists public rooms for browsers through the directory channel", async () => {
+    const world = createWorld();
+    const host = renderPlayer(world);
+    const browser = renderPlayer(world);
+
+    await act(async () => {
+      await host.result.current.createRoom("Host");
+    });
+    let rooms: RoomListing[] = [];
+    const stop = browser.result.current.watchPublicRooms(listed => { rooms = listed; });
+
+    await act(async () => {
+      host.result.current.updateSettings({ is_public: true });
+    });
+    await waitFor(() => expect(rooms).toHaveLength(1));
+    expect(rooms[0]).toMatchObject({ code: host.result.current.room?.code, host_name: "Host", players: 1, status: "lobby" });
+
+    await act(async () => {
+      host.result.current.updateSettings({ is_public: false });
+    });
+    await waitFor(() => expect(rooms).toHaveLength(0));
+
+    stop();
+    host.unmount();
+    browser.unmount();
+  });
+});
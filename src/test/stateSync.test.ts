@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { createGameState, gameReducer, type EngineEnv, type Player } from "@/lib/gameEngine";
+import { applyPatches, diffState } from "@/lib/stateSync";
+
+const player = (id: string): Player => ({
+  id,
+  user_id: `user-${id}`,
+  username: id,
+  avatar_color: "#FF6B6B",
+  score: 0,
+  is_host: false,
+  is_ready: false,
+  is_connected: true,
+});
+
+const env: EngineEnv = { now: 0, pickPrompt: () => "prompt" };
+
+describe("stateSync", () => {
+  it("sends only what changed", () => {
+    const lobby = createGameState("1234", player("host"));
+    const joined = gameReducer(lobby, { type: "playerJoined", player: player("guest"), senderId: "guest" }, env);
+
+    expect(diffState(lobby, lobby)).toEqual([]);
+    expect(diffState(lobby, joined)).toEqual([{ type: "playerUpdated", player: joined.players[1] }]);
+  });
+
+  it("rebuilds the next state from patches", () => {
+    let prev = gameReducer(createGameState("1234", player("host")), { type: "playerJoined", player: player("guest"), senderId: "guest" }, env);
+    prev = gameReducer(prev, { type: "startGame" }, env);
+    prev = gameReducer(prev, { type: "submitDrawing", drawing: { id: "guest-1", player_id: "guest", round: 1, image_ref: "b" }, senderId: "guest" }, env);
+
+    // Next round: room changes, drawings cleared, a player leaves
+    const next = { ...prev, room: { ...prev.room, current_round: 2 }, drawings: [], votes: [], players: prev.players.slice(0, 1) };
+
+    const patches = diffState(prev, next);
+    expect(patches.map(p => p.type)).toEqual(["roomUpdated", "playerRemoved", "drawingRemoved"]);
+    expect(applyPatches(prev, patches)).toEqual(next);
+  });
+});
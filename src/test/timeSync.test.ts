@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { bestOffset, measureSample } from "@/lib/timeSync";
+
+describe("timeSync", () => {
+  it("measures the host's offset from one round trip", () => {
+    // Host runs 10s ahead; ping took 40ms there and back
+    expect(measureSample(1000, 11_020, 1040)).toEqual({ offset: 10_000, rtt: 40 });
+  });
+
+  it("trusts the fastest round trip", () => {
+    const samples = [
+      measureSample(0, 10_150, 200), // slow and lopsided
+      measureSample(300, 10_310, 320),
+      measureSample(400, 10_500, 500),
+    ];
+    expect(bestOffset(samples)).toBe(10_000);
+    expect(bestOffset([])).toBe(0);
+  });
+});
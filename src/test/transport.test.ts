@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryBus } from "@/lib/transport";
+
+describe("memory transport", () => {
+  it("delivers events to other clients with the sender key", async () => {
+    const bus = createMemoryBus();
+    const a = bus("room:1", "a");
+    const b = bus("room:1", "b");
+    const received: [unknown, string][] = [];
+    const echoed: unknown[] = [];
+
+    a.on("ping", payload => echoed.push(payload));
+    b.on("ping", (payload, sender) => received.push([payload, sender]));
+    await a.subscribe();
+    await b.subscribe();
+
+    a.send("ping", { n: 1 });
+    await Promise.resolve();
+
+    expect(received).toEqual([[{ n: 1 }, "a"]]);
+    expect(echoed).toEqual([]);
+  });
+
+  it("tracks presence across joins and leaves", async () => {
+    const bus = createMemoryBus();
+    const a = bus("room:1", "a");
+    const b = bus("room:1", "b");
+    const seen: string[][] = [];
+
+    a.onPresence(members => seen.push(members.map(m => m.key)));
+    await a.subscribe();
+    await b.subscribe();
+    await b.close();
+    await Promise.resolve();
+
+    expect(seen).toEqual([["a"], ["a", "b"], ["a"]]);
+    expect(a.presence().map(m => m.key)).toEqual(["a"]);
+  });
+});
@@ -1 +1,20 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_PUBLISHABLE_KEY?: string;
+  // 'supabase' | 'broadcast' | 'memory'; see src/lib/transport
+  readonly VITE_REALTIME_TRANSPORT?: string;
+  // 'supabase' | 'indexeddb' | 'memory'; see src/lib/drawingStore
+  readonly VITE_DRAWING_STORE?: string;
+  // Length of new room codes, 4-8 (default 5)
+  readonly VITE_ROOM_CODE_LENGTH?: string;
+  // 'open' | 'password' | 'supabase'; see src/lib/roomAuth
+  readonly VITE_HOST_AUTH?: string;
+  // SHA-256 (hex) of the host password, for 'password' host auth
+  readonly VITE_HOST_PASSWORD_HASH?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
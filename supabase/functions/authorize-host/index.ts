@@ -0,0 +1,40 @@
+// Stand-in edge function for room-creation authorization. Supabase verifies
+// the caller's JWT (anonymous sign-ins included) before this runs; we only
+// decide whether that user may host.
+//
+// Secrets (supabase secrets set ...):
+//   HOST_ALLOW_LIST  comma-separated user ids that may always host
+//   HOST_SECRET      optional shared secret that lets anyone else host
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+// The gateway has already checked the signature; read the user id from it
+const userIdFrom = (req: Request): string | null => {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer /, "");
+  try {
+    const payload = token?.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    return payload ? JSON.parse(atob(payload)).sub ?? null : null;
+  } catch {
+    return null;
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  const userId = userIdFrom(req);
+  if (!userId) return json({ allowed: false }, 401);
+
+  const allowList = (Deno.env.get("HOST_ALLOW_LIST") ?? "").split(",").map(id => id.trim()).filter(Boolean);
+  const hostSecret = Deno.env.get("HOST_SECRET");
+  const { secret } = await req.json().catch(() => ({ secret: null }));
+
+  const allowed = allowList.includes(userId) || (!!hostSecret && secret === hostSecret);
+  return json({ allowed });
+});